@@ -0,0 +1,27 @@
+/**
+ * Nonce Route
+ *
+ * Issues a single-use SIWE nonce bound to the caller's sign-in session
+ * cookie. `AuthContext.signIn` fetches one before calling `wallet_connect`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { nonceStore, NonceStore, NONCE_TTL_MS, SIGN_IN_COOKIE_NAME } from '../../../lib/nonceStore';
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.cookies.get(SIGN_IN_COOKIE_NAME)?.value || NonceStore.createSessionId();
+  const record = await nonceStore.issue(sessionId);
+
+  const response = NextResponse.json(
+    { nonce: record.nonce, expiresAt: record.expiresAt },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+  response.cookies.set(SIGN_IN_COOKIE_NAME, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: NONCE_TTL_MS / 1000,
+  });
+  return response;
+}
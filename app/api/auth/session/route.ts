@@ -0,0 +1,24 @@
+/**
+ * Session Route
+ *
+ * GET restores the signed-in user from the session cookie.
+ * DELETE signs the user out by clearing the cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, getSessionUser, SESSION_COOKIE_NAME } from '../../../lib/session';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ user: null }, { status: 401 });
+  }
+
+  return NextResponse.json({ user: getSessionUser(session) });
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
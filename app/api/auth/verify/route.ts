@@ -0,0 +1,51 @@
+/**
+ * SIWE Verification Route
+ *
+ * Verifies the message and signature produced by `wallet_connect`'s
+ * `signInWithEthereum` capability and issues an HTTP-only session cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySignIn } from '../../../lib/siwe';
+import { createSessionToken, getSessionCookieOptions, getSessionUser, SESSION_COOKIE_NAME } from '../../../lib/session';
+import { SIGN_IN_COOKIE_NAME } from '../../../lib/nonceStore';
+
+interface VerifyRequestBody {
+  address?: string;
+  message?: string;
+  signature?: string;
+}
+
+export async function POST(request: NextRequest) {
+  let body: VerifyRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { address, message, signature } = body;
+  if (!address || !message || !signature) {
+    return NextResponse.json({ error: 'address, message and signature are required' }, { status: 400 });
+  }
+
+  const result = await verifySignIn({
+    address,
+    message,
+    signature,
+    domain: request.headers.get('host') ?? request.nextUrl.host,
+    sessionId: request.cookies.get(SIGN_IN_COOKIE_NAME)?.value,
+  });
+
+  if (!result.success) {
+    console.error('❌ Sign-in verification failed:', result.error);
+    // Replays get 409 so clients can tell them apart from bad signatures
+    const status = result.code === 'replayed' ? 409 : 401;
+    return NextResponse.json({ error: result.error, code: result.code }, { status });
+  }
+
+  const response = NextResponse.json({ user: getSessionUser(result.session) });
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(result.session), getSessionCookieOptions(result.session));
+  response.cookies.set(SIGN_IN_COOKIE_NAME, '', { path: '/api/auth', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,14 @@
+/**
+ * Inventory Route
+ *
+ * GET returns the units of each product that can still be reserved,
+ * i.e. stock on hand minus units held for unpaid orders.
+ */
+
+import { NextResponse } from 'next/server';
+import { inventoryRepository } from '../../lib/inventoryRepository';
+
+export async function GET() {
+  const stock = await inventoryRepository.getAvailability();
+  return NextResponse.json({ stock }, { headers: { 'Cache-Control': 'no-store' } });
+}
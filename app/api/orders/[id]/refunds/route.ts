@@ -0,0 +1,56 @@
+/**
+ * Order Refunds Route
+ *
+ * POST sends USDC back to the payer of a paid order and records the refund
+ * (see `refunds.ts`). Merchant only; see `merchantAuth.ts`.
+ * Body: `{ amount?: "2.50", reason?: string }`, where amount is a decimal
+ * USDC string capped at the unrefunded balance; omit it to refund the rest.
+ * Split orders can only be refunded up to their platform leg.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isMerchantRequest } from '../../../../lib/merchantAuth';
+import { jsonResponse } from '../../../../lib/json';
+import { Money, parseMoney } from '../../../../lib/money';
+import { refundOrder } from '../../../../lib/refunds';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_REASON_LENGTH = 200;
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  let body: { amount?: string; reason?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  let amount: Money | undefined;
+  if (body.amount !== undefined) {
+    try {
+      amount = parseMoney(String(body.amount));
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid amount' }, { status: 400 });
+    }
+  }
+
+  if (body.reason !== undefined && (typeof body.reason !== 'string' || body.reason.length > MAX_REASON_LENGTH)) {
+    return NextResponse.json({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` }, { status: 400 });
+  }
+
+  const result = await refundOrder(id, amount, body.reason?.trim() || undefined);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return jsonResponse({ order: result.order, refund: result.refund }, { status: 201 });
+}
@@ -0,0 +1,181 @@
+/**
+ * Order Route
+ *
+ * GET returns one of the signed-in user's orders.
+ * PATCH records the payment outcome of a pending order as seen by the browser:
+ * - 'failed' marks the order failed and releases its reserved stock, unless
+ *   a payment is registered for it; the watcher decides those
+ * - 'paid' is only accepted once the payment is verified onchain, and
+ *   commits the reserved stock and the order's promotion use. A payment
+ *   other than the one registered for the order, or one already on
+ *   another order, is rejected.
+ * Payments are registered with the server watcher through
+ * `/api/payments/register` as soon as they are submitted, so an order
+ * still settles if the browser never reports back. Payer details collected
+ * by Base Pay can accompany 'paid' and are stored once, if valid; missing or
+ * invalid required details are recorded on the order so they can be
+ * collected before it is fulfilled.
+ * Split orders are paid with a batch of transfers instead of Base Pay and
+ * report 'paid' with the batch's `transactionHash`, checked against every
+ * payout leg. Payments sent from one of the payer's sub-accounts (the
+ * Orders sub-account checkout) also report a `transactionHash`, with the
+ * sub-account as `paidFrom`.
+ * Spend permission payments are finalised by `/api/payments/spend`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import type { PayerInfoResponses } from '@base-org/account';
+import { getSession } from '../../../lib/session';
+import { jsonResponse } from '../../../lib/json';
+import { orderRepository } from '../../../lib/orderRepository';
+import { settleOrderFailed, settleOrderPaid, verifyOrderPayment, verifyOrderPayouts, verifySubAccountPayment } from '../../../lib/orderSettlement';
+import { acceptPayerInfo } from '../../../lib/payerInfo';
+import { Order, OrderStatus } from '../../../types/order';
+
+const TRANSACTION_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface UpdateOrderBody {
+  status?: OrderStatus;
+  paymentId?: string;
+  transactionHash?: string;
+  paidFrom?: string;
+  error?: string;
+  payerInfo?: PayerInfoResponses;
+}
+
+async function getOwnedOrder(request: NextRequest, id: string) {
+  const session = getSession(request);
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+
+  const order = await orderRepository.get(id);
+  if (!order || order.payer.toLowerCase() !== session.address.toLowerCase()) {
+    return { response: NextResponse.json({ error: 'Order not found' }, { status: 404 }) };
+  }
+  return { order };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { order, response } = await getOwnedOrder(request, id);
+  if (!order) {
+    return response;
+  }
+
+  return jsonResponse({ order }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { order, response } = await getOwnedOrder(request, id);
+  if (!order) {
+    return response;
+  }
+
+  if (order.status !== 'pending') {
+    return jsonResponse({ error: `Order is already ${order.status}`, order }, { status: 409 });
+  }
+  if (order.chargingAt) {
+    return jsonResponse({ error: 'Order is being charged through a spend permission', order }, { status: 409 });
+  }
+
+  let body: UpdateOrderBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { status, paymentId, transactionHash, paidFrom, error } = body;
+  if (paidFrom !== undefined && !isAddress(paidFrom, { strict: false })) {
+    return NextResponse.json({ error: 'paidFrom must be an address' }, { status: 400 });
+  }
+  const paymentMethod = paidFrom ? 'sub_account' : order.payouts ? 'split_transfer' : 'base_pay';
+
+  if (status === 'failed') {
+    // The unverified payment ID isn't recorded; it could belong to another order
+    const updated = await settleOrderFailed(
+      id,
+      { paymentMethod, error: error || 'Payment failed' },
+      current => !current.paymentId && !current.callsId && !current.chargingAt
+    );
+    if (updated?.status === 'pending') {
+      return jsonResponse(
+        { error: 'A payment is registered for this order; it settles once the payment is confirmed', order: updated },
+        { status: 409 }
+      );
+    }
+    return jsonResponse({ order: updated });
+  }
+
+  if (status !== 'paid') {
+    return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+  }
+
+  if (order.payouts || paidFrom) {
+    if (!transactionHash || !TRANSACTION_HASH_PATTERN.test(transactionHash)) {
+      return NextResponse.json({ error: 'transactionHash is required for split and sub-account payments' }, { status: 400 });
+    }
+
+    const result = paidFrom
+      ? await verifySubAccountPayment(order, transactionHash, paidFrom)
+      : await verifyOrderPayouts(order, transactionHash);
+    if (!result.success) {
+      const updated = await orderRepository.update(id, { paymentMethod, error: result.error });
+      return jsonResponse({ error: result.error, order: updated }, { status: 422 });
+    }
+
+    // A transaction can only ever settle one order; checked as it is recorded
+    const updated = await settleOrderPaid(id, {
+      paymentMethod,
+      transactionHash: result.transactionHash,
+      ...(paidFrom && { paidFrom: getAddress(paidFrom) }),
+    });
+    if (updated?.status === 'pending') {
+      return jsonResponse({ error: 'Transaction is already recorded on another order', order: updated }, { status: 409 });
+    }
+    return jsonResponse({ order: updated });
+  }
+
+  if (!paymentId) {
+    return NextResponse.json({ error: 'paymentId is required' }, { status: 400 });
+  }
+  const registered = order.paymentId ?? order.callsId;
+  if (registered && registered !== paymentId) {
+    return jsonResponse({ error: 'Order already has a different payment', order }, { status: 409 });
+  }
+
+  // Still no payment, or this same one; a payment can only ever settle one
+  // order, which is checked as it is attached
+  const isSamePayment = (current: Order) => (current.paymentId ?? current.callsId ?? paymentId) === paymentId;
+  const payerInfo = acceptPayerInfo(order, body.payerInfo);
+  const result = await verifyOrderPayment(order, paymentId);
+  if (!result.success) {
+    // Leave the order pending so verification can be retried
+    const attached = await orderRepository.attachPayment(
+      id,
+      current => current.status === 'pending' && isSamePayment(current),
+      { paymentMethod: 'base_pay', paymentId, error: result.error, ...payerInfo }
+    );
+    if (!attached.success) {
+      return jsonResponse({ error: attached.error, order: await orderRepository.get(id) }, { status: 409 });
+    }
+    return jsonResponse({ error: result.error, order: attached.order }, { status: 422 });
+  }
+
+  const updated = await settleOrderPaid(
+    id,
+    { paymentMethod: 'base_pay', paymentId, transactionHash: result.receipt.transactionHash, ...payerInfo },
+    isSamePayment
+  );
+  if (updated?.status === 'pending') {
+    return jsonResponse({ error: 'Payment could not be attached to this order', order: updated }, { status: 409 });
+  }
+  return jsonResponse({ order: updated });
+}
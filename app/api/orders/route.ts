@@ -0,0 +1,89 @@
+/**
+ * Orders Route
+ *
+ * GET lists the signed-in user's orders, newest first.
+ * POST creates a pending order from product lines before payment starts;
+ * prices and promotion discounts come from the server, never from the
+ * client, and the ordered units and the promotion's use are held until the
+ * payment succeeds or fails. Orders with marketplace products also get
+ * their payout legs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '../../lib/session';
+import { jsonResponse } from '../../lib/json';
+import { orderRepository, priceOrderLines } from '../../lib/orderRepository';
+import { inventoryRepository } from '../../lib/inventoryRepository';
+import { promotionRepository } from '../../lib/promotionRepository';
+import { getPayerInfoRequests, requiresPayerInfo } from '../../lib/payerInfo';
+import { getOrderPayouts } from '../../lib/payouts';
+import { PromotionQuote } from '../../types/promotion';
+import { OrderLineInput } from '../../types/order';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const orders = await orderRepository.listByPayer(session.address);
+  return jsonResponse({ orders }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let body: { lines?: OrderLineInput[]; promotionCode?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const priced = priceOrderLines(body.lines ?? []);
+  if (!priced.success) {
+    return NextResponse.json({ error: priced.error }, { status: 400 });
+  }
+
+  let promotion: PromotionQuote | undefined;
+  if (body.promotionCode) {
+    const quoted = await promotionRepository.quote(body.promotionCode, priced.lines);
+    if (!quoted.success) {
+      return NextResponse.json({ error: quoted.error }, { status: 400 });
+    }
+    promotion = quoted.quote;
+  }
+
+  const amount = promotion ? promotion.amount : priced.amount;
+
+  // Split payments are sent as a batch of transfers, which can't collect payer details
+  if (getOrderPayouts(priced.lines, amount) && requiresPayerInfo(getPayerInfoRequests(priced.lines))) {
+    return NextResponse.json(
+      { error: 'Marketplace products must be checked out separately from products that need your details' },
+      { status: 400 }
+    );
+  }
+  const order = await orderRepository.create(priced.lines, amount, session.address, session.chainId, promotion);
+
+  const reservation = await inventoryRepository.reserve(order.id, priced.lines);
+  if (!reservation.success) {
+    await orderRepository.update(order.id, { status: 'failed', error: reservation.error });
+    return NextResponse.json({ error: reservation.error }, { status: 409 });
+  }
+
+  // The quote only previewed the usage limit; redeeming enforces it
+  if (promotion) {
+    const redemption = await promotionRepository.redeem(promotion.code, order.id);
+    if (!redemption.success) {
+      await orderRepository.update(order.id, { status: 'failed', error: redemption.error });
+      await inventoryRepository.release(order.id);
+      return NextResponse.json({ error: redemption.error }, { status: 409 });
+    }
+  }
+
+  console.log('🧾 Created pending order:', order.id);
+  return jsonResponse({ order }, { status: 201 });
+}
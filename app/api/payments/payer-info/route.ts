@@ -0,0 +1,53 @@
+/**
+ * Payer Info Callback Route
+ *
+ * Called by the wallet during a Base Pay payment that requests payer
+ * details (see `NEXT_PUBLIC_PAYER_INFO_CALLBACK_URL`), before the payment
+ * is sent. Invalid details are returned as field errors for the shopper to
+ * fix; valid details return the payment request unchanged so it can proceed.
+ * Details are stored on the order afterwards through `/api/orders/[id]`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { PayerInfoResponses } from '@base-org/account';
+import { validatePayerInfo } from '../../../lib/payerInfo';
+
+interface PayerInfoCallbackBody {
+  calls?: unknown[];
+  chainId?: string;
+  version?: string;
+  capabilities?: {
+    dataCallback?: {
+      requestedInfo?: PayerInfoResponses;
+    };
+  };
+}
+
+export async function POST(request: NextRequest) {
+  let body: PayerInfoCallbackBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const requestedInfo = body.capabilities?.dataCallback?.requestedInfo;
+  if (!requestedInfo) {
+    return NextResponse.json({ error: 'Missing requested info' }, { status: 400 });
+  }
+
+  // The wallet enforces which details are required; only formats are checked here
+  const errors = validatePayerInfo(requestedInfo);
+  if (errors) {
+    console.log('⚠️ Rejected payer info:', Object.keys(errors).join(', '));
+    return NextResponse.json({ errors });
+  }
+
+  return NextResponse.json({
+    request: {
+      calls: body.calls,
+      chainId: body.chainId,
+      version: body.version,
+    },
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Payment Registration Route
+ *
+ * The client registers a Base Pay payment ID with its pending order as
+ * soon as `pay()` returns, together with any payer details the wallet
+ * collected. Split orders, and orders paid from one of the payer's
+ * sub-accounts (`paidFrom`), register the calls ID of their
+ * `wallet_sendCalls` batch instead. The server then confirms the payment
+ * itself (see `paymentWatcher.ts`), so the order settles even if the tab
+ * is closed before the browser finishes polling.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import type { PayerInfoResponses } from '@base-org/account';
+import { getSession } from '../../../lib/session';
+import { jsonResponse } from '../../../lib/json';
+import { orderRepository } from '../../../lib/orderRepository';
+import { paymentWatcher } from '../../../lib/paymentWatcher';
+import { acceptPayerInfo } from '../../../lib/payerInfo';
+
+interface RegisterPaymentBody {
+  orderId?: string;
+  paymentId?: string; // Base Pay payment ID
+  callsId?: string; // Calls ID of a split or sub-account payment batch
+  paidFrom?: string; // Sub-account that sent the batch
+  payerInfo?: PayerInfoResponses;
+}
+
+// User operation hash, optionally followed by a suffix; calls IDs of Base
+// Account batches have the same form
+const PAYMENT_ID_PATTERN = /^0x[0-9a-fA-F]{64}/;
+
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let body: RegisterPaymentBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { orderId, paymentId, callsId, paidFrom } = body;
+  const id = paymentId ?? callsId;
+  if (!orderId || !id || (paymentId && callsId)) {
+    return NextResponse.json({ error: 'orderId and one of paymentId or callsId are required' }, { status: 400 });
+  }
+  if (!PAYMENT_ID_PATTERN.test(id)) {
+    return NextResponse.json({ error: `Invalid payment ID: ${id}` }, { status: 400 });
+  }
+  if (paidFrom !== undefined && (!callsId || !isAddress(paidFrom, { strict: false }))) {
+    return NextResponse.json({ error: 'paidFrom must be the address of the sub-account that sent the batch' }, { status: 400 });
+  }
+
+  const order = await orderRepository.get(orderId);
+  if (!order || order.payer.toLowerCase() !== session.address.toLowerCase()) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+  if (order.status !== 'pending') {
+    return jsonResponse({ error: `Order is already ${order.status}`, order }, { status: 409 });
+  }
+  if (order.chargingAt) {
+    return NextResponse.json({ error: 'Order is being charged through a spend permission' }, { status: 409 });
+  }
+  if (paymentId && order.payouts) {
+    return NextResponse.json({ error: 'Split orders are paid with a batch transfer, not Base Pay' }, { status: 400 });
+  }
+  if (callsId && !order.payouts === !paidFrom) {
+    return NextResponse.json(
+      { error: 'Batch transfers pay split orders, or other orders from a sub-account with paidFrom' },
+      { status: 400 }
+    );
+  }
+  const registered = order.paymentId ?? order.callsId;
+  if (registered && registered !== id) {
+    return NextResponse.json({ error: 'Order already has a payment' }, { status: 409 });
+  }
+
+  // Still pending with no payment yet, or with this same one; a payment can
+  // only ever settle one order, which is checked as it is attached
+  const attached = await orderRepository.attachPayment(
+    orderId,
+    current => current.status === 'pending' && !current.chargingAt && (current.paymentId ?? current.callsId ?? id) === id,
+    paymentId
+      ? { paymentMethod: 'base_pay', paymentId, ...acceptPayerInfo(order, body.payerInfo) }
+      : paidFrom
+        ? { paymentMethod: 'sub_account', callsId, paidFrom: getAddress(paidFrom) }
+        : { paymentMethod: 'split_transfer', callsId }
+  );
+  if (!attached.success) {
+    return NextResponse.json({ error: attached.error }, { status: 409 });
+  }
+  await paymentWatcher.watch(orderId, id, paymentId ? 'base_pay' : 'calls');
+
+  return jsonResponse({ order: attached.order }, { status: 202 });
+}
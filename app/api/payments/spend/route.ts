@@ -0,0 +1,132 @@
+/**
+ * Spend Permission Payment Route
+ *
+ * Charges the signed-in shopper through their spend permission using the
+ * server-held spender key, and returns the merchant transfer hash and block.
+ * When an `orderId` is given the pending order is claimed before charging,
+ * so concurrent requests can't charge it twice, and settled with the
+ * outcome (see `orderSettlement.ts`). A charge that reached the spender but
+ * not the merchant is recorded on the order for recovery and the order
+ * stays claimed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '../../../lib/session';
+import { parseMoney, Money, ZERO_MONEY } from '../../../lib/money';
+import { chargeSpendPermission, SpendPermission } from '../../../lib/spender';
+import { appConfig } from '../../../config/app';
+import { getNetworkByChainId } from '../../../config/network';
+import { orderRepository } from '../../../lib/orderRepository';
+import { settleOrderFailed, settleOrderPaid } from '../../../lib/orderSettlement';
+import { requiresPayerInfo } from '../../../lib/payerInfo';
+import { getSubscriptionPlanId } from '../../../lib/subscriptionPermission';
+
+interface SpendRequestBody {
+  permission?: SpendPermission;
+  amount?: string; // USDC, e.g. "0.10"
+  recipientAddress?: string;
+  orderId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let body: SpendRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { permission, amount, recipientAddress, orderId } = body;
+  if (!permission || !amount || !recipientAddress) {
+    return NextResponse.json({ error: 'permission, amount and recipientAddress are required' }, { status: 400 });
+  }
+
+  // Subscription permissions are only charged by subscription billing
+  if (getSubscriptionPlanId(permission)) {
+    return NextResponse.json({ error: 'Spend permission is reserved for a subscription' }, { status: 400 });
+  }
+
+  // The spender only ever pays the configured merchant
+  if (recipientAddress.toLowerCase() !== appConfig.merchantAddress.toLowerCase()) {
+    return NextResponse.json({ error: 'Recipient is not the merchant' }, { status: 400 });
+  }
+
+  let amountUnits: Money;
+  try {
+    amountUnits = parseMoney(amount);
+  } catch {
+    return NextResponse.json({ error: `Invalid amount: ${amount}` }, { status: 400 });
+  }
+  if (amountUnits <= ZERO_MONEY) {
+    return NextResponse.json({ error: 'Amount must be positive' }, { status: 400 });
+  }
+
+  const order = orderId ? await orderRepository.get(orderId) : undefined;
+  if (orderId) {
+    if (!order || order.payer.toLowerCase() !== session.address.toLowerCase()) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    if (order.status !== 'pending') {
+      return NextResponse.json({ error: `Order is already ${order.status}` }, { status: 409 });
+    }
+    if (order.paymentId || order.callsId) {
+      return NextResponse.json({ error: 'Order already has a payment' }, { status: 409 });
+    }
+    if (order.amount !== amountUnits) {
+      return NextResponse.json({ error: 'Amount does not match the order total' }, { status: 400 });
+    }
+    if (requiresPayerInfo(order.payerInfoRequests)) {
+      return NextResponse.json({ error: 'Order needs payer details, which only Base Pay can collect' }, { status: 400 });
+    }
+    if (order.payouts) {
+      return NextResponse.json({ error: 'Split orders are paid by the shopper in one batch of transfers' }, { status: 400 });
+    }
+  }
+
+  const network = getNetworkByChainId(session.chainId);
+  if (!network) {
+    return NextResponse.json({ error: `Unsupported chain ID: ${session.chainId}` }, { status: 400 });
+  }
+
+  if (order) {
+    const claimed = await orderRepository.updateIf(
+      order.id,
+      current => current.status === 'pending' && !current.chargingAt && !current.paymentId && !current.callsId,
+      { paymentMethod: 'spend_permission', chargingAt: Date.now() }
+    );
+    if (!claimed) {
+      return NextResponse.json({ error: 'Order is already being paid' }, { status: 409 });
+    }
+  }
+
+  const result = await chargeSpendPermission({
+    permission,
+    amount: amountUnits,
+    payer: session.address,
+    network,
+  });
+
+  if (order) {
+    if (result.success) {
+      await settleOrderPaid(order.id, { transactionHash: result.transactionHash, chargingAt: undefined });
+    } else if (result.stranded) {
+      await orderRepository.update(order.id, { error: result.error, strandedCharge: result.stranded });
+    } else {
+      await settleOrderFailed(order.id, { error: result.error, chargingAt: undefined });
+    }
+  }
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.stranded ? 502 : 422 });
+  }
+
+  return NextResponse.json({
+    transactionHash: result.transactionHash,
+    blockNumber: result.blockNumber.toString(),
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Promotion Quote Route
+ *
+ * POST prices product lines with a promotion code so the cart and product
+ * page can show the discount before checkout. Orders are re-priced when
+ * created, so a quote is only a preview.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonResponse } from '../../../lib/json';
+import { priceOrderLines } from '../../../lib/orderRepository';
+import { promotionRepository } from '../../../lib/promotionRepository';
+import { OrderLineInput } from '../../../types/order';
+
+export async function POST(request: NextRequest) {
+  let body: { code?: string; lines?: OrderLineInput[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.code) {
+    return NextResponse.json({ error: 'code is required' }, { status: 400 });
+  }
+
+  const priced = priceOrderLines(body.lines ?? []);
+  if (!priced.success) {
+    return NextResponse.json({ error: priced.error }, { status: 400 });
+  }
+
+  const result = await promotionRepository.quote(body.code, priced.lines);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 422 });
+  }
+
+  return jsonResponse({ quote: result.quote }, { headers: { 'Cache-Control': 'no-store' } });
+}
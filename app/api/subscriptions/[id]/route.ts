@@ -0,0 +1,83 @@
+/**
+ * Subscription Route
+ *
+ * PATCH lets the subscriber manage one of their subscriptions:
+ * - 'pause' stops billing until resumed
+ * - 'resume' restarts billing from the current period; periods that passed
+ *   while paused are skipped, and an unpaid current period is charged on
+ *   the next billing run
+ * - 'cancel' ends the subscription for good
+ * The spend permission stays granted until the shopper revokes it on the
+ * Permissions page, but nothing is charged once a subscription is canceled.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '../../../lib/session';
+import { jsonResponse } from '../../../lib/json';
+import { alignPeriodStart, subscriptionRepository } from '../../../lib/subscriptionRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type SubscriptionAction = 'pause' | 'resume' | 'cancel';
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const subscription = await subscriptionRepository.get(id);
+  if (!subscription || subscription.subscriber.toLowerCase() !== session.address.toLowerCase()) {
+    return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+  }
+
+  let body: { action?: SubscriptionAction };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (subscription.status === 'canceled') {
+    return jsonResponse({ error: 'Subscription is already canceled', subscription }, { status: 409 });
+  }
+
+  let updated;
+  switch (body.action) {
+    case 'pause':
+      if (subscription.status === 'paused') {
+        return jsonResponse({ error: 'Subscription is already paused', subscription }, { status: 409 });
+      }
+      updated = await subscriptionRepository.update(id, { status: 'paused' });
+      break;
+
+    case 'resume': {
+      if (subscription.status !== 'paused') {
+        return jsonResponse({ error: 'Subscription is not paused', subscription }, { status: 409 });
+      }
+      const periodStart = alignPeriodStart(subscription.currentPeriodStart, subscription.intervalDays);
+      const skipped = periodStart !== subscription.currentPeriodStart;
+      const failedAttempts = skipped ? 0 : subscription.failedAttempts;
+      updated = await subscriptionRepository.update(id, {
+        status: failedAttempts > 0 ? 'past_due' : 'active',
+        failedAttempts,
+        currentPeriodStart: periodStart,
+        nextChargeAt: skipped ? Date.now() : Math.max(subscription.nextChargeAt, Date.now()),
+      });
+      break;
+    }
+
+    case 'cancel':
+      updated = await subscriptionRepository.update(id, { status: 'canceled', cancelReason: 'Canceled by subscriber' });
+      break;
+
+    default:
+      return NextResponse.json({ error: `Invalid action: ${body.action}` }, { status: 400 });
+  }
+
+  console.log('🔁 Subscription', id, body.action);
+  return jsonResponse({ subscription: updated });
+}
@@ -0,0 +1,76 @@
+/**
+ * Subscriptions Route
+ *
+ * GET lists the signed-in user's subscriptions, newest first.
+ * POST subscribes to a plan with a spend permission granted for it (see
+ * `subscriptionPermission.ts`). The first period is charged right away and
+ * the subscription is only created if that charge succeeds, or was taken
+ * but stranded with the spender (see `spender.ts`); later periods are
+ * billed by `subscriptionBilling.ts`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '../../lib/session';
+import { jsonResponse } from '../../lib/json';
+import type { SpendPermission } from '../../lib/spender';
+import { alignPeriodStart, subscriptionRepository } from '../../lib/subscriptionRepository';
+import { chargeSubscriptionPeriod } from '../../lib/subscriptionBilling';
+import { validateSubscriptionPermission } from '../../lib/subscriptionPermission';
+import { getSubscriptionPlanById } from '../../data/subscriptionPlans';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const subscriptions = await subscriptionRepository.listBySubscriber(session.address);
+  return jsonResponse({ subscriptions }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let body: { planId?: string; permission?: SpendPermission };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { planId, permission } = body;
+  if (!planId || !permission) {
+    return NextResponse.json({ error: 'planId and permission are required' }, { status: 400 });
+  }
+
+  const plan = getSubscriptionPlanById(planId);
+  if (!plan) {
+    return NextResponse.json({ error: `Unknown plan: ${planId}` }, { status: 404 });
+  }
+
+  const permissionError = validateSubscriptionPermission(permission, plan);
+  if (permissionError) {
+    return NextResponse.json({ error: permissionError }, { status: 400 });
+  }
+
+  const existing = await subscriptionRepository.listBySubscriber(session.address);
+  if (existing.some(subscription => subscription.planId === plan.id && subscription.status !== 'canceled')) {
+    return NextResponse.json({ error: `You are already subscribed to ${plan.name}` }, { status: 409 });
+  }
+
+  // Periods follow the permission's onchain periods, starting at its start;
+  // an older permission is already in a later period
+  const subscriber = { permission, price: plan.price, subscriber: session.address, chainId: session.chainId };
+  const periodStart = alignPeriodStart(permission.permission.start * 1000, plan.intervalDays);
+  const result = await chargeSubscriptionPeriod(subscriber, periodStart);
+  if (!result.success && !result.stranded) {
+    return NextResponse.json({ error: result.error }, { status: 422 });
+  }
+
+  const subscription = await subscriptionRepository.create(plan, session.address, session.chainId, permission, result.charge);
+  console.log('🔁 Subscribed', session.address, 'to', plan.id);
+  return jsonResponse({ subscription }, { status: 201 });
+}
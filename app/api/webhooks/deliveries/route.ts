@@ -0,0 +1,19 @@
+/**
+ * Webhook Delivery Log Route
+ *
+ * GET lists merchant webhook deliveries with every attempt, newest first.
+ * Merchant only; see `merchantAuth.ts`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isMerchantRequest } from '../../../lib/merchantAuth';
+import { webhookDispatcher } from '../../../lib/webhooks';
+
+export async function GET(request: NextRequest) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const deliveries = await webhookDispatcher.list();
+  return NextResponse.json({ deliveries }, { headers: { 'Cache-Control': 'no-store' } });
+}
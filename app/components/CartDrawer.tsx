@@ -0,0 +1,173 @@
+'use client';
+
+/**
+ * Cart Drawer Component
+ *
+ * Slide-over panel opened from the Header showing the cart lines,
+ * quantity controls, a promotion code field, the total and a checkout
+ * button that pays for the whole cart in a single payment.
+ */
+
+import { FormEvent, useState } from 'react';
+import { useCart } from '../contexts/CartContext';
+import { useAuth } from '../contexts/AuthContext';
+import { usePayment } from '../contexts/PaymentContext';
+import { BasePayButton } from './BasePayButton';
+import { formatUSDC } from '../lib/money';
+
+interface CartDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
+  const {
+    cart,
+    items,
+    updateQuantity,
+    removeItem,
+    applyPromotionCode,
+    removePromotionCode,
+    promotionError,
+    checkout,
+    isCheckingOut,
+  } = useCart();
+  const { isAuthenticated } = useAuth();
+  const { isProcessing } = usePayment();
+  const [codeInput, setCodeInput] = useState('');
+
+  const handleApplyCode = async (event: FormEvent) => {
+    event.preventDefault();
+    if (codeInput.trim() && await applyPromotionCode(codeInput.trim())) {
+      setCodeInput('');
+    }
+  };
+
+  const handleCheckout = async () => {
+    const result = await checkout();
+
+    if (result.success) {
+      console.log('✅ Cart checkout successful!', result);
+      alert(`Payment successful! Transaction: ${result.transactionHash} (block ${result.blockNumber})`);
+      onClose();
+    } else if (result.pending) {
+      alert(`Your order is pending: the payment was submitted but is not confirmed yet (${result.error}). Check your order history for its status.`);
+      onClose();
+    } else {
+      console.error('❌ Cart checkout failed:', result.error);
+      alert(`Payment failed: ${result.error}`);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      <div className="absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Your Cart</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close cart">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {items.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Your cart is empty.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {items.map(({ product, quantity }) => (
+                <li key={product.id} className="py-4 flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-900">{product.name}</p>
+                    <p className="text-sm text-gray-500">{formatUSDC(product.price)} each</p>
+                    <button
+                      onClick={() => removeItem(product.id)}
+                      className="text-xs text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => updateQuantity(product.id, quantity - 1)}
+                      className="w-8 h-8 rounded-full border border-gray-200 text-gray-700 hover:bg-gray-50"
+                      aria-label={`Decrease ${product.name} quantity`}
+                    >
+                      −
+                    </button>
+                    <span className="w-6 text-center text-gray-900">{quantity}</span>
+                    <button
+                      onClick={() => updateQuantity(product.id, quantity + 1)}
+                      className="w-8 h-8 rounded-full border border-gray-200 text-gray-700 hover:bg-gray-50"
+                      aria-label={`Increase ${product.name} quantity`}
+                    >
+                      +
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4">
+          {items.length > 0 && (
+            <form onSubmit={handleApplyCode} className="flex space-x-2">
+              <input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                placeholder="Promotion code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 uppercase"
+              />
+              <button
+                type="submit"
+                disabled={!codeInput.trim()}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </form>
+          )}
+          {promotionError && <p className="text-sm text-red-600">{promotionError}</p>}
+          {cart.promotionCode && (
+            <>
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Subtotal</span>
+                <span>{formatUSDC(cart.subtotal)}</span>
+              </div>
+              <div className="flex justify-between text-sm text-green-700">
+                <span>
+                  Discount ({cart.promotionCode}){' '}
+                  <button onClick={removePromotionCode} className="text-xs text-gray-500 hover:text-gray-700">
+                    Remove
+                  </button>
+                </span>
+                <span>−{formatUSDC(cart.discount)}</span>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between text-lg font-semibold text-gray-900">
+            <span>Total</span>
+            <span>{formatUSDC(cart.total)}</span>
+          </div>
+          {!isAuthenticated && items.length > 0 && (
+            <p className="text-sm text-gray-500">Sign in to check out.</p>
+          )}
+          <BasePayButton
+            onClick={handleCheckout}
+            disabled={items.length === 0 || !isAuthenticated || isCheckingOut || isProcessing}
+            colorScheme="light"
+            className="w-full py-4 px-8 text-lg font-semibold"
+          >
+            {isCheckingOut ? 'Processing Payment...' : `Checkout - ${formatUSDC(cart.total)}`}
+          </BasePayButton>
+        </div>
+      </div>
+    </div>
+  );
+}
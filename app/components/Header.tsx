@@ -1,10 +1,19 @@
 'use client';
 
+import { useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
+import { useBaseAccount } from '../contexts/BaseAccountContext';
+import { useCart } from '../contexts/CartContext';
+import { CartDrawer } from './CartDrawer';
+import { NETWORKS, NetworkName } from '../config/network';
 import { SignInWithBaseButton } from '@base-org/account-ui/react';
 
 export function Header() {
   const { user, isAuthenticated, signIn, signOut } = useAuth();
+  const { network, switchNetwork } = useBaseAccount();
+  const { itemCount } = useCart();
+  const [isCartOpen, setIsCartOpen] = useState(false);
 
   return (
     <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
@@ -12,14 +21,60 @@ export function Header() {
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
           <div className="flex items-center">
-            <h1 className="text-xl font-bold text-gray-900">Base Commerce</h1>
+            <Link href="/">
+              <h1 className="text-xl font-bold text-gray-900">Base Commerce</h1>
+            </Link>
           </div>
 
           {/* Right side */}
           <div className="flex items-center space-x-4">
+            {/* Network Switch - switching networks ends the current session */}
+            <select
+              value={network.name}
+              onChange={(e) => switchNetwork(e.target.value as NetworkName)}
+              className={`text-sm border rounded-md px-2 py-1 ${
+                network.testnet ? 'border-yellow-300 bg-yellow-50 text-yellow-800' : 'border-gray-200 text-gray-600'
+              }`}
+            >
+              {Object.values(NETWORKS).map((option) => (
+                <option key={option.name} value={option.name}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            <Link href="/products" className="text-sm text-gray-500 hover:text-gray-700">
+              Products
+            </Link>
+
+            {/* Cart Button */}
+            <button
+              onClick={() => setIsCartOpen(true)}
+              className="relative text-gray-600 hover:text-gray-900"
+              aria-label="Open cart"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              {itemCount > 0 && (
+                <span className="absolute -top-2 -right-2 bg-blue-600 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  {itemCount}
+                </span>
+              )}
+            </button>
+
             {/* Auth Button */}
             {isAuthenticated ? (
               <div className="flex items-center space-x-3">
+                <Link href="/orders" className="text-sm text-gray-500 hover:text-gray-700">
+                  Orders
+                </Link>
+                <Link href="/subscriptions" className="text-sm text-gray-500 hover:text-gray-700">
+                  Subscriptions
+                </Link>
+                <Link href="/permissions" className="text-sm text-gray-500 hover:text-gray-700">
+                  Permissions
+                </Link>
                 <div className="text-sm text-gray-600">
                   {user?.address.slice(0, 6)}...{user?.address.slice(-4)}
                 </div>
@@ -41,6 +96,8 @@ export function Header() {
           </div>
         </div>
       </div>
+
+      <CartDrawer isOpen={isCartOpen} onClose={() => setIsCartOpen(false)} />
     </header>
   );
 }
@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * Manage Permissions Component
+ *
+ * Lists every spend permission the signed-in user granted to the app's
+ * spender, with its terms and current status, and lets the user revoke
+ * any permission that is still usable. Permissions granted for a
+ * subscription are labelled with their plan.
+ */
+
+import { useState } from 'react';
+import { usePayment } from '../contexts/PaymentContext';
+import { useBaseAccount } from '../contexts/BaseAccountContext';
+import { SpendPermissionDetails, SpendPermissionState } from '../services/spendPermissionService';
+import { formatMoney, formatUSDC } from '../lib/money';
+import { getSubscriptionPlanById } from '../data/subscriptionPlans';
+
+const STATE_STYLES: Record<SpendPermissionState, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  not_started: { label: 'Not started', className: 'bg-blue-100 text-blue-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-800' },
+};
+
+// Permissions granted without an end date use the maximum uint48 timestamp
+function formatEnd(end: Date): string {
+  return Number.isNaN(end.getTime()) ? 'no expiry' : end.toLocaleDateString();
+}
+
+function formatPeriod(periodInDays: number): string {
+  return periodInDays === 1 ? 'Daily' : `Every ${periodInDays} days`;
+}
+
+export function ManagePermissions() {
+  const {
+    spendPermissions,
+    isCheckingPermission,
+    refreshSpendPermission,
+    revokeSpendPermission,
+    revokingPermissionHash,
+  } = usePayment();
+  const { network } = useBaseAccount();
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Revoke a permission after the user confirms; the wallet asks for
+   * approval of the revoke transaction
+   */
+  const handleRevoke = async (details: SpendPermissionDetails) => {
+    if (!confirm(`Revoke the ${formatUSDC(details.totalAllowance)} spend permission?`)) {
+      return;
+    }
+
+    setError(null);
+    const result = await revokeSpendPermission(details);
+    if (!result.success) {
+      setError(result.error || 'Failed to revoke spend permission');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Spend Permissions</h2>
+          <p className="text-sm text-gray-600">USDC permissions granted to Base Commerce on {network.label}</p>
+        </div>
+        <button
+          onClick={refreshSpendPermission}
+          disabled={isCheckingPermission}
+          className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          {isCheckingPermission ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {spendPermissions.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {isCheckingPermission ? 'Loading permissions...' : 'No spend permissions found.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-500 border-b border-gray-200">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Allowance</th>
+                <th className="py-2 pr-4 font-medium">Period</th>
+                <th className="py-2 pr-4 font-medium">Remaining</th>
+                <th className="py-2 pr-4 font-medium">Valid</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {spendPermissions.map((details) => {
+                const hash = details.permission.permissionHash;
+                const isRevoking = !!hash && hash === revokingPermissionHash;
+                const state = STATE_STYLES[details.state];
+
+                return (
+                  <tr key={hash ?? details.permission.permission.salt} className="border-b border-gray-100">
+                    <td className="py-3 pr-4 font-semibold text-gray-900">
+                      ${formatMoney(details.totalAllowance)}
+                      {details.subscriptionPlanId && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          Subscription: {getSubscriptionPlanById(details.subscriptionPlanId)?.name ?? details.subscriptionPlanId}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">{formatPeriod(details.periodInDays)}</td>
+                    <td className="py-3 pr-4 text-gray-600">
+                      {details.isActive ? `$${formatMoney(details.remainingSpend)}` : '—'}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">
+                      {details.start.toLocaleDateString()} – {formatEnd(details.end)}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </td>
+                    <td className="py-3 text-right">
+                      {(details.state === 'active' || details.state === 'not_started') && (
+                        <button
+                          onClick={() => handleRevoke(details)}
+                          disabled={!!revokingPermissionHash}
+                          className="text-red-600 hover:text-red-700 disabled:text-gray-400"
+                        >
+                          {isRevoking ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+/**
+ * Order History Component
+ *
+ * Lists the signed-in user's orders with their lines, total, status and
+ * a block explorer link for the paying transaction, the sub-account that
+ * paid when it was not the Base Account itself, the payout legs of split
+ * payments and any refunds.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { OrderService } from '../services/orderService';
+import { usePayment } from '../contexts/PaymentContext';
+import { useSubAccount } from '../contexts/SubAccountContext';
+import { getNetworkByChainId } from '../config/network';
+import { Order, OrderStatus, RefundStatus } from '../types/order';
+import { PayoutRole } from '../types/product';
+import { PAYER_INFO_LABELS } from '../lib/payerInfo';
+import { formatUSDC } from '../lib/money';
+
+const STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  partially_refunded: { label: 'Partially refunded', className: 'bg-blue-100 text-blue-800' },
+  refunded: { label: 'Refunded', className: 'bg-gray-100 text-gray-800' },
+};
+
+const PAYOUT_ROLE_LABELS: Record<PayoutRole, string> = {
+  seller: 'Seller',
+  platform: 'Platform fee',
+  affiliate: 'Affiliate',
+};
+
+const REFUND_LABELS: Record<RefundStatus, string> = {
+  pending: 'Refund pending:',
+  completed: 'Refunded',
+  failed: 'Refund failed:',
+};
+
+const orderService = new OrderService();
+
+export function OrderHistory() {
+  const { applyOrderUpdates } = usePayment();
+  const { subAccounts } = useSubAccount();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const loaded = await orderService.listOrders();
+      setOrders(loaded);
+      applyOrderUpdates(loaded);
+    } catch (error) {
+      console.error('Failed to load orders:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyOrderUpdates]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Your Orders</h2>
+        <button
+          onClick={loadOrders}
+          disabled={isLoading}
+          className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="mb-4 p-4 bg-red-50 rounded-lg text-sm text-red-800">{loadError}</div>
+      )}
+
+      {orders.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {isLoading ? 'Loading orders...' : 'No orders yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {orders.map((order) => {
+            const status = STATUS_STYLES[order.status];
+            const network = getNetworkByChainId(order.chainId);
+            const paidFromName = subAccounts.find(
+              subAccount => subAccount.address.toLowerCase() === order.paidFrom?.toLowerCase()
+            )?.name;
+
+            return (
+              <li key={order.id} className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {order.lines.map(line => `${line.quantity} × ${line.name}`).join(', ')}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(order.createdAt).toLocaleString()} · {network?.label ?? `Chain ${order.chainId}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">{formatUSDC(order.amount)}</p>
+                    {order.promotionCode && order.discount !== undefined && (
+                      <p className="text-xs text-green-700">
+                        {order.promotionCode} −{formatUSDC(order.discount)}
+                      </p>
+                    )}
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                </div>
+                {order.transactionHash && network && (
+                  <a
+                    href={`${network.explorerUrl}/tx/${order.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:text-blue-700 font-mono"
+                  >
+                    {order.transactionHash.slice(0, 10)}...{order.transactionHash.slice(-8)}
+                  </a>
+                )}
+                {order.paidFrom && (
+                  <p className="text-sm text-gray-600">
+                    Paid from {paidFromName ? `${paidFromName} sub-account` : 'sub-account'}{' '}
+                    {order.paidFrom.slice(0, 6)}...{order.paidFrom.slice(-4)}
+                  </p>
+                )}
+                {order.payouts && (
+                  <ul className="mt-1 text-sm text-gray-600">
+                    {order.payouts.map(leg => (
+                      <li key={`${leg.role}:${leg.recipient}`}>
+                        {PAYOUT_ROLE_LABELS[leg.role]} {leg.recipient.slice(0, 6)}...{leg.recipient.slice(-4)}:{' '}
+                        {formatUSDC(leg.amount)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {order.refunds?.map(refund => (
+                  <p key={refund.id} className={`text-sm ${refund.status === 'failed' ? 'text-red-600' : 'text-blue-700'}`}>
+                    {REFUND_LABELS[refund.status]} {formatUSDC(refund.amount)} on {new Date(refund.createdAt).toLocaleDateString()}
+                    {refund.reason && ` · ${refund.reason}`}
+                    {network && (
+                      <>
+                        {' · '}
+                        <a
+                          href={`${network.explorerUrl}/tx/${refund.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-700 font-mono"
+                        >
+                          {refund.transactionHash.slice(0, 10)}...
+                        </a>
+                      </>
+                    )}
+                  </p>
+                ))}
+                {order.payerInfo?.physicalAddress && (
+                  <p className="text-sm text-gray-600">
+                    Ships to {order.payerInfo.physicalAddress.address1}, {order.payerInfo.physicalAddress.city}{' '}
+                    {order.payerInfo.physicalAddress.postalCode}, {order.payerInfo.physicalAddress.countryCode}
+                  </p>
+                )}
+                {order.payerInfo?.email && (
+                  <p className="text-sm text-gray-600">Email on file: {order.payerInfo.email}</p>
+                )}
+                {order.settlementIssues?.map(issue => (
+                  <p key={issue} className="text-sm text-yellow-700">{issue}</p>
+                ))}
+                {order.payerInfoMissing && order.payerInfoMissing.length > 0 && (
+                  <p className="text-sm text-yellow-700">
+                    Missing {order.payerInfoMissing.map(type => PAYER_INFO_LABELS[type]).join(', ')}; contact the store to
+                    complete your order
+                  </p>
+                )}
+                {order.status !== 'paid' && order.error && (
+                  <p className="text-sm text-red-600">{order.error}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
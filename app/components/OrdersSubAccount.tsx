@@ -0,0 +1,276 @@
+'use client';
+
+/**
+ * Orders Sub-Account Component
+ *
+ * Sets up the Orders sub-account that checkout can pay from without a
+ * wallet popup, and manages it: its USDC balance and today's spend, the
+ * daily spend limit, the auto-spend maximum per payment, and the target
+ * balance a top-up from the universal account brings it to.
+ */
+
+import { FormEvent, useEffect, useState } from 'react';
+import { usePayment } from '../contexts/PaymentContext';
+import { useBaseAccount } from '../contexts/BaseAccountContext';
+import { ORDERS_SUB_ACCOUNT_NAME, useSubAccount } from '../contexts/SubAccountContext';
+import { formatUSDC, Money, parseMoney, toDecimalString, ZERO_MONEY } from '../lib/money';
+import { appConfig } from '../config/app';
+
+const DEFAULT_DAILY_LIMIT = parseMoney('10');
+
+interface SettingsInput {
+  dailyLimit: string;
+  maxAmount: string;
+  targetBalance: string;
+  enabled: boolean;
+}
+
+function parsePositive(value: string, label: string): Money {
+  let amount: Money;
+  try {
+    amount = parseMoney(value);
+  } catch {
+    throw new Error(`Enter a valid USDC amount for the ${label}`);
+  }
+  if (amount <= ZERO_MONEY) {
+    throw new Error(`The ${label} must be greater than zero`);
+  }
+  return amount;
+}
+
+export function OrdersSubAccount() {
+  const { network } = useBaseAccount();
+  const {
+    ordersSubAccount,
+    isLoadingSubAccounts,
+    isCreatingSubAccount,
+    subAccountError,
+    createSubAccount,
+    updateSubAccount,
+  } = useSubAccount();
+  const {
+    autoSpendConfig,
+    updateAutoSpendConfig,
+    ordersSubAccountBalance,
+    refreshOrdersSubAccountBalance,
+    fundOrdersSubAccount,
+    isFundingSubAccount,
+  } = usePayment();
+  const [settings, setSettings] = useState<SettingsInput | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Start the form from the saved settings whenever they change, including
+  // when the auto-spend config loads after the first render; a spend only
+  // changes today's total, so it leaves the form alone
+  const address = ordersSubAccount?.address;
+  const dailySpendLimit = ordersSubAccount?.dailySpendLimit;
+  const targetBalance = ordersSubAccount?.targetBalance;
+  useEffect(() => {
+    if (!address || dailySpendLimit === undefined || targetBalance === undefined) {
+      setSettings(null);
+      return;
+    }
+    const isConfigured = autoSpendConfig?.subAccountId.toLowerCase() === address.toLowerCase();
+    setSettings({
+      dailyLimit: toDecimalString(dailySpendLimit),
+      maxAmount: toDecimalString(isConfigured ? autoSpendConfig.maxAmount : dailySpendLimit),
+      targetBalance: toDecimalString(targetBalance),
+      enabled: isConfigured ? autoSpendConfig.enabled : false,
+    });
+  }, [address, dailySpendLimit, targetBalance, autoSpendConfig]);
+
+  /**
+   * Create the sub-account (or adopt the one the wallet already has for
+   * this app) and turn on auto-spend for it
+   */
+  const handleCreate = async () => {
+    setMessage(null);
+    try {
+      const subAccount = await createSubAccount({ name: ORDERS_SUB_ACCOUNT_NAME, dailySpendLimit: DEFAULT_DAILY_LIMIT });
+      updateAutoSpendConfig({
+        enabled: true,
+        subAccountId: subAccount.address,
+        maxAmount: DEFAULT_DAILY_LIMIT,
+        requiresApproval: false,
+        approvalThreshold: DEFAULT_DAILY_LIMIT,
+      });
+      setMessage({ text: 'Orders sub-account ready. Top it up to pay without popups.', isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to create sub-account', isError: true });
+    }
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!ordersSubAccount || !settings) return;
+
+    try {
+      const dailySpendLimit = parsePositive(settings.dailyLimit, 'daily limit');
+      const maxAmount = parsePositive(settings.maxAmount, 'maximum per payment');
+      const targetBalance = parsePositive(settings.targetBalance, 'target balance');
+
+      updateSubAccount(ordersSubAccount.address, { dailySpendLimit, targetBalance });
+      updateAutoSpendConfig({
+        enabled: settings.enabled,
+        subAccountId: ordersSubAccount.address,
+        maxAmount,
+        requiresApproval: false,
+        approvalThreshold: maxAmount,
+      });
+      setMessage({ text: 'Settings saved', isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Invalid settings', isError: true });
+    }
+  };
+
+  const handleFund = async () => {
+    setMessage(null);
+    const result = await fundOrdersSubAccount();
+    if (result.success) {
+      setMessage({ text: `Added ${formatUSDC(result.amount!)} to the Orders sub-account`, isError: false });
+    } else if (result.pending) {
+      setMessage({ text: 'Top-up sent but not confirmed yet; the balance updates once it lands. Use Refresh to check.', isError: false });
+    } else {
+      setMessage({ text: result.error || 'Funding failed', isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Orders Sub-Account</h2>
+          <p className="text-sm text-gray-600">Pays for orders straight from this app, with no wallet popup</p>
+        </div>
+        {ordersSubAccount && (
+          <button
+            onClick={refreshOrdersSubAccountBalance}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Refresh
+          </button>
+        )}
+      </div>
+
+      {(message || subAccountError) && (
+        <div className={`mb-4 p-4 rounded-lg text-sm ${message && !message.isError ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {message?.text ?? subAccountError}
+        </div>
+      )}
+
+      {!ordersSubAccount ? (
+        <div className="text-center py-4">
+          <p className="text-gray-600 mb-4">
+            {isLoadingSubAccounts
+              ? 'Loading sub-accounts...'
+              : 'Create a sub-account for orders. You fund it from your Base Account and checkout pays from it automatically.'}
+          </p>
+          <button
+            onClick={handleCreate}
+            disabled={isLoadingSubAccounts || isCreatingSubAccount}
+            className="px-6 py-3 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isCreatingSubAccount ? 'Creating...' : 'Create Orders sub-account'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Address</p>
+              <a
+                href={`${network.explorerUrl}/address/${ordersSubAccount.address}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-blue-600 hover:text-blue-700"
+              >
+                {ordersSubAccount.address.slice(0, 6)}...{ordersSubAccount.address.slice(-4)}
+              </a>
+            </div>
+            <div>
+              <p className="text-gray-500">Balance</p>
+              <p className="font-semibold text-gray-900">
+                {ordersSubAccountBalance === null ? '—' : formatUSDC(ordersSubAccountBalance)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Spent today</p>
+              <p className="font-semibold text-gray-900">
+                {formatUSDC(ordersSubAccount.totalSpentToday)} of {formatUSDC(ordersSubAccount.dailySpendLimit)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg text-sm text-blue-900">
+            <span>Top up to the {formatUSDC(ordersSubAccount.targetBalance)} target from your Base Account</span>
+            <button
+              onClick={handleFund}
+              disabled={isFundingSubAccount || (ordersSubAccountBalance !== null && ordersSubAccountBalance >= ordersSubAccount.targetBalance)}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isFundingSubAccount ? 'Funding...' : 'Top up'}
+            </button>
+          </div>
+
+          {settings && (
+            <form onSubmit={handleSave} className="space-y-4 text-sm">
+              <label className="flex items-center space-x-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                />
+                <span>Let checkout pay from this sub-account</span>
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="dailyLimit" className="block text-gray-600 mb-1">Daily limit (USDC)</label>
+                  <input
+                    id="dailyLimit"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={settings.dailyLimit}
+                    onChange={(e) => setSettings({ ...settings, dailyLimit: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxAmount" className="block text-gray-600 mb-1">Max per payment (USDC)</label>
+                  <input
+                    id="maxAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={settings.maxAmount}
+                    onChange={(e) => setSettings({ ...settings, maxAmount: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="targetBalance" className="block text-gray-600 mb-1">Target balance (USDC)</label>
+                  <input
+                    id="targetBalance"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={settings.targetBalance}
+                    onChange={(e) => setSettings({ ...settings, targetBalance: e.target.value })}
+                    placeholder={toDecimalString(appConfig.subAccountTargetBalance)}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Save settings
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
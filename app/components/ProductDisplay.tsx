@@ -6,16 +6,33 @@
  * Shows product details and handles direct payment using Base Pay.
  * This component demonstrates one-tap payments using spend permissions.
  * No additional wallet interactions are required after spend permissions are set.
+ * Remaining stock is read from the inventory and refreshed after each payment,
+ * and a promotion code can be applied to the direct purchase.
+ * Shoppers with an Orders sub-account can check out from it instead, which
+ * needs no wallet popup at all; the last payment shows which account paid.
  */
 
-import { useState } from 'react';
+import { FormEvent, useCallback, useEffect, useState } from 'react';
 import { Product } from '../types/product';
 import { BasePayButton } from './BasePayButton';
 import { usePayment } from '../contexts/PaymentContext';
+import { useSubAccount } from '../contexts/SubAccountContext';
+import { useCart } from '../contexts/CartContext';
+import { formatMoney, formatUSDC } from '../lib/money';
+import { appConfig } from '../config/app';
+import { InventoryService } from '../services/inventoryService';
+import { PromotionService } from '../services/promotionService';
+import { PromotionQuote } from '../types/promotion';
+import { PAYER_INFO_LABELS, requiresPayerInfo } from '../lib/payerInfo';
+
+const inventoryService = new InventoryService();
+const promotionService = new PromotionService();
+
+type CheckoutMode = 'base_account' | 'orders_sub_account';
 
 interface ProductDisplayProps {
   product: Product;
-  onAddToCart?: (product: Product) => void; // Kept for compatibility, not used in simplified flow
+  onAddToCart?: (product: Product) => void;
   onPurchase?: (product: Product) => void;
 }
 
@@ -24,7 +41,69 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Payment context for processing transactions
-  const { processPayment, isProcessing: paymentProcessing } = usePayment();
+  const {
+    processPayment,
+    isProcessing: paymentProcessing,
+    pendingPayment,
+    resumePendingPayment,
+    cancelPaymentTracking,
+    canPayFromOrdersSubAccount,
+    ordersSubAccountBalance,
+  } = usePayment();
+  const { ordersSubAccount } = useSubAccount();
+
+  // Cart for buying several products in one payment
+  const { addItem } = useCart();
+
+  // Units that can still be reserved; null until loaded
+  const [available, setAvailable] = useState<number | null>(null);
+  const isReservable = product.stock > 0 && available !== 0;
+
+  const refreshStock = useCallback(async () => {
+    try {
+      const stock = await inventoryService.getAvailability();
+      setAvailable(stock[product.id] ?? 0);
+    } catch (error) {
+      console.error('Failed to load stock:', error);
+    }
+  }, [product.id]);
+
+  useEffect(() => {
+    refreshStock();
+  }, [refreshStock]);
+
+  // Promotion code applied to a direct purchase of one unit
+  const [codeInput, setCodeInput] = useState('');
+  const [promotionQuote, setPromotionQuote] = useState<PromotionQuote | null>(null);
+  const [promotionError, setPromotionError] = useState<string | null>(null);
+  const price = promotionQuote ? promotionQuote.amount : product.price;
+
+  const handleApplyCode = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setPromotionQuote(await promotionService.quote(codeInput.trim(), [{ productId: product.id, quantity: 1 }]));
+      setPromotionError(null);
+    } catch (error) {
+      setPromotionQuote(null);
+      setPromotionError(error instanceof Error ? error.message : 'Failed to apply promotion code');
+    }
+  };
+
+  // Which account pays: the Base Account, or the Orders sub-account when
+  // auto-spend allows this price and it holds enough USDC
+  const [checkoutMode, setCheckoutMode] = useState<CheckoutMode>('base_account');
+  const [lastPaidFrom, setLastPaidFrom] = useState<{ label: string; address: string } | null>(null);
+  const supportsSubAccount = !product.payoutSplit && !requiresPayerInfo(product.payerInfo);
+  const canUseSubAccount = supportsSubAccount && canPayFromOrdersSubAccount(price) &&
+    ordersSubAccountBalance !== null && ordersSubAccountBalance >= price;
+  const paysFromSubAccount = checkoutMode === 'orders_sub_account' && canUseSubAccount;
+
+  const handleAddToCart = () => {
+    addItem(product);
+    if (onAddToCart) {
+      onAddToCart(product);
+    }
+  };
 
   /**
    * Handle direct payment using Base Pay and spend permissions
@@ -40,23 +119,36 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
     
     setIsProcessing(true);
     try {
-      // Demo recipient address - in production, this would be your merchant wallet
-      const recipientAddress = '0x742d35Cc6634C0532925a3b8D0C0E1c4C5f7f8f9';
+      // Merchant wallet from NEXT_PUBLIC_MERCHANT_ADDRESS
+      const recipientAddress = appConfig.merchantAddress;
       
       console.log('🚀 Processing payment for product:', product.name);
-      console.log('💰 Amount:', product.price, 'USDC');
+      console.log('💰 Amount:', formatUSDC(price), promotionQuote ? `with ${promotionQuote.code}` : '');
       
-      // Process payment using Base Pay (leverages spend permissions)
-      const result = await processPayment(product.price, recipientAddress);
+      // Process payment using Base Pay (leverages spend permissions),
+      // recorded as an order for this product
+      const result = await processPayment(
+        price,
+        recipientAddress,
+        [{ productId: product.id, quantity: 1 }],
+        promotionQuote?.code,
+        checkoutMode === 'orders_sub_account'
+      );
       
       if (result.success) {
         console.log('✅ Payment successful!', result);
-        alert(`Payment successful! Transaction: ${result.transactionHash}`);
+        setLastPaidFrom(result.paidFrom && ordersSubAccount
+          ? { label: `${ordersSubAccount.name} sub-account`, address: result.paidFrom }
+          : { label: 'Base Account', address: result.payer ?? '' });
+        alert(`Payment successful! Transaction: ${result.transactionHash} (block ${result.blockNumber})`);
         
         // Notify parent component of successful purchase
         if (onPurchase) {
           onPurchase(product);
         }
+      } else if (result.pending) {
+        console.warn('⏳ Payment not confirmed yet:', result.paymentId);
+        alert(`Payment submitted but not confirmed yet (${result.error}). We'll keep checking when you come back.`);
       } else {
         console.error('❌ Payment failed:', result.error);
         alert(`Payment failed: ${result.error}`);
@@ -66,6 +158,7 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
       alert(`Payment error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsProcessing(false);
+      refreshStock();
     }
   };
 
@@ -93,11 +186,49 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
           {/* Price */}
           <div className="flex items-baseline space-x-3">
             <span className="text-5xl font-bold text-gray-900">
-              ${product.price.toFixed(2)}
+              ${formatMoney(price)}
             </span>
             <span className="text-xl text-gray-500">USDC</span>
+            {promotionQuote && (
+              <span className="text-xl text-gray-400 line-through">${formatMoney(product.price)}</span>
+            )}
+          </div>
+
+          {/* Promotion code */}
+          <div>
+            <form onSubmit={handleApplyCode} className="flex space-x-2 max-w-sm">
+              <input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                placeholder="Promotion code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 uppercase"
+              />
+              <button
+                type="submit"
+                disabled={!codeInput.trim()}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </form>
+            {promotionQuote && (
+              <p className="mt-2 text-sm text-green-700">
+                {promotionQuote.code}: {promotionQuote.description} (−{formatUSDC(promotionQuote.discount)}){' '}
+                <button onClick={() => setPromotionQuote(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                  Remove
+                </button>
+              </p>
+            )}
+            {promotionError && <p className="mt-2 text-sm text-red-600">{promotionError}</p>}
           </div>
 
+          {/* Stock */}
+          {available !== null && (
+            <p className={`text-sm font-medium ${isReservable ? 'text-gray-600' : 'text-red-600'}`}>
+              {isReservable ? `${available} left in stock` : 'Out of stock'}
+            </p>
+          )}
+
           {/* Features - Simplified */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             {product.features.slice(0, 4).map((feature, index) => (
@@ -110,11 +241,63 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
             ))}
           </div>
 
+          {/* In-flight payment from this or an earlier visit */}
+          {pendingPayment && (
+            <div className="p-4 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+              <p className="mb-2">
+                A payment of {formatUSDC(pendingPayment.request.amount)} is awaiting confirmation.
+              </p>
+              {paymentProcessing ? (
+                <button onClick={cancelPaymentTracking} className="font-medium hover:text-yellow-900">
+                  Stop checking
+                </button>
+              ) : (
+                <button onClick={resumePendingPayment} className="font-medium hover:text-yellow-900">
+                  Check again
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Checkout mode, once the Orders sub-account is set up */}
+          {ordersSubAccount && supportsSubAccount && (
+            <div className="space-y-2 text-sm">
+              <div className="flex space-x-2">
+                {(['base_account', 'orders_sub_account'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setCheckoutMode(mode)}
+                    className={`flex-1 py-2 rounded-lg border font-medium ${
+                      checkoutMode === mode ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {mode === 'base_account' ? 'Base Account' : `${ordersSubAccount.name} sub-account`}
+                  </button>
+                ))}
+              </div>
+              {checkoutMode === 'orders_sub_account' && (
+                <p className={canUseSubAccount ? 'text-gray-600' : 'text-yellow-700'}>
+                  {canUseSubAccount
+                    ? `Pays from ${ordersSubAccount.address.slice(0, 6)}...${ordersSubAccount.address.slice(-4)} with no popup (balance ${formatUSDC(ordersSubAccountBalance!)})`
+                    : 'The Orders sub-account cannot pay this now (auto-spend is off, over its limits, or balance too low), so your Base Account pays instead. Top it up on the Permissions page.'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Which account paid the last purchase */}
+          {lastPaidFrom && (
+            <p className="text-sm text-green-700">
+              Paid from {lastPaidFrom.label}
+              {lastPaidFrom.address && ` (${lastPaidFrom.address.slice(0, 6)}...${lastPaidFrom.address.slice(-4)})`}
+            </p>
+          )}
+
           {/* Action Buttons */}
           <div className="space-y-4">
             <BasePayButton
               onClick={handleDirectPayment}
-              disabled={!product.inStock || isProcessing || paymentProcessing}
+              disabled={!isReservable || isProcessing || paymentProcessing}
               colorScheme="light"
               className="w-full py-4 px-8 text-lg font-semibold"
             >
@@ -126,12 +309,45 @@ export function ProductDisplay({ product, onAddToCart, onPurchase }: ProductDisp
                   </svg>
                   Processing Payment...
                 </>
+              ) : !isReservable ? (
+                'Out of Stock'
+              ) : paysFromSubAccount ? (
+                `Buy Now from ${ordersSubAccount!.name} sub-account - ${formatUSDC(price)}`
               ) : (
-                `Buy Now with Base Pay - $${product.price.toFixed(2)} USDC`
+                `Buy Now with Base Pay - ${formatUSDC(price)}`
               )}
             </BasePayButton>
+            <button
+              onClick={handleAddToCart}
+              disabled={!isReservable}
+              className="w-full py-3 px-8 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add to Cart
+            </button>
           </div>
 
+          {/* Details the wallet asks for at checkout */}
+          {product.payerInfo && product.payerInfo.length > 0 && (
+            <p className="text-sm text-gray-500">
+              Checkout asks for your{' '}
+              {product.payerInfo
+                .map(request => `${PAYER_INFO_LABELS[request.type]}${request.optional ? ' (optional)' : ''}`)
+                .join(', ')}
+              .
+            </p>
+          )}
+
+          {/* Marketplace products pay the seller directly */}
+          {product.payoutSplit && (
+            <p className="text-sm text-gray-500">
+              Sold through the marketplace: your payment is split between{' '}
+              {product.payoutSplit
+                .map(share => `the ${share.role} (${share.basisPoints / 100}%)`)
+                .join(', ')}{' '}
+              in a single transaction.
+            </p>
+          )}
+
           {/* Base Account Notice - Simplified */}
           <div className="flex items-center text-sm text-gray-500">
             <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
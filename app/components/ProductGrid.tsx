@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * Product Grid Component
+ *
+ * Catalog view with category filtering, search over name, description and
+ * features, and an out-of-stock state. Each card links to the product page.
+ */
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getCategories, searchProducts } from '../data/products';
+import { useCart } from '../contexts/CartContext';
+import { formatUSDC } from '../lib/money';
+
+export function ProductGrid() {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const { addItem } = useCart();
+
+  const categories = getCategories();
+  const products = searchProducts(query, category);
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-8">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search products..."
+          className="flex-1 border border-gray-200 rounded-lg px-4 py-2 text-gray-900"
+        />
+        <div className="flex flex-wrap gap-2">
+          {[undefined, ...categories].map((option) => (
+            <button
+              key={option ?? 'all'}
+              onClick={() => setCategory(option)}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                category === option ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option ?? 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {products.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No products match your search.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {products.map((product) => (
+            <div
+              key={product.id}
+              className={`bg-white rounded-2xl shadow-sm border border-gray-100 p-6 flex flex-col ${
+                product.stock > 0 ? '' : 'opacity-60'
+              }`}
+            >
+              <Link href={`/products/${product.id}`} className="flex-1">
+                <div className="aspect-video bg-gradient-to-br from-blue-50 to-indigo-100 rounded-xl flex items-center justify-center mb-4">
+                  <Image src={product.image} alt={product.name} width={64} height={64} className="w-16 h-16 object-contain" />
+                </div>
+                <p className="text-xs font-medium text-blue-600 uppercase">{product.category}</p>
+                <h3 className="text-lg font-semibold text-gray-900">{product.name}</h3>
+                <p className="text-sm text-gray-600 mt-1">{product.description}</p>
+              </Link>
+              <div className="flex justify-between items-center mt-4">
+                <span className="font-semibold text-gray-900">{formatUSDC(product.price)}</span>
+                {product.stock > 0 ? (
+                  <button
+                    onClick={() => addItem(product)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    Add to Cart
+                  </button>
+                ) : (
+                  <span className="text-sm font-medium text-gray-500">Out of stock</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
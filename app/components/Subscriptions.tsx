@@ -0,0 +1,255 @@
+'use client';
+
+/**
+ * Subscriptions Component
+ *
+ * Lists the subscription plans and the signed-in user's subscriptions.
+ * Subscribing grants a spend permission for the plan, which the server
+ * charges once per billing period. Subscriptions can be paused, resumed
+ * or canceled, and a failed charge shows when it will be retried.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePayment } from '../contexts/PaymentContext';
+import { SubscriptionAction, SubscriptionService } from '../services/subscriptionService';
+import { getSubscriptionPlanById, subscriptionPlans } from '../data/subscriptionPlans';
+import { Subscription, SubscriptionPlan, SubscriptionStatus } from '../types/subscription';
+import { formatUSDC } from '../lib/money';
+import { getNetworkByChainId } from '../config/network';
+
+const STATUS_STYLES: Record<SubscriptionStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  past_due: { label: 'Past due', className: 'bg-yellow-100 text-yellow-800' },
+  paused: { label: 'Paused', className: 'bg-blue-100 text-blue-800' },
+  canceled: { label: 'Canceled', className: 'bg-gray-100 text-gray-600' },
+};
+
+// Most recent charges shown per subscription
+const RECENT_CHARGES = 3;
+
+const subscriptionService = new SubscriptionService();
+
+function formatInterval(intervalDays: number): string {
+  return intervalDays === 7 ? 'week' : intervalDays === 30 ? 'month' : `${intervalDays} days`;
+}
+
+export function Subscriptions() {
+  const { requestSubscriptionPermission, isPaymentReady } = usePayment();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSubscriptions(await subscriptionService.listSubscriptions());
+    } catch (loadError) {
+      console.error('Failed to load subscriptions:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load subscriptions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const replaceSubscription = (updated: Subscription) => {
+    setSubscriptions(current => [updated, ...current.filter(subscription => subscription.id !== updated.id)]
+      .sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  /**
+   * Grant the plan's spend permission, then subscribe; the first period is
+   * charged straight away
+   */
+  const handleSubscribe = async (plan: SubscriptionPlan) => {
+    setError(null);
+    setBusyId(plan.id);
+    try {
+      const permission = await requestSubscriptionPermission(plan);
+      replaceSubscription(await subscriptionService.subscribe(plan.id, permission));
+    } catch (subscribeError) {
+      console.error('❌ Failed to subscribe:', subscribeError);
+      setError(subscribeError instanceof Error ? subscribeError.message : 'Failed to subscribe');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAction = async (subscription: Subscription, action: SubscriptionAction) => {
+    if (action === 'cancel' && !confirm('Cancel this subscription? It cannot be restarted.')) {
+      return;
+    }
+
+    setError(null);
+    setBusyId(subscription.id);
+    try {
+      replaceSubscription(await subscriptionService.updateSubscription(subscription.id, action));
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : `Failed to ${action} subscription`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isSubscribed = (plan: SubscriptionPlan) =>
+    subscriptions.some(subscription => subscription.planId === plan.id && subscription.status !== 'canceled');
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Plans</h2>
+        <div className="grid gap-6 md:grid-cols-2">
+          {subscriptionPlans.map(plan => (
+            <div key={plan.id} className="border border-gray-200 rounded-xl p-6 flex flex-col">
+              <h3 className="text-lg font-semibold text-gray-900">{plan.name}</h3>
+              <p className="text-sm text-gray-600 mb-4">{plan.description}</p>
+              <p className="text-2xl font-bold text-gray-900 mb-4">
+                {formatUSDC(plan.price)}
+                <span className="text-sm font-normal text-gray-500"> / {formatInterval(plan.intervalDays)}</span>
+              </p>
+              <ul className="text-sm text-gray-600 space-y-1 mb-6 flex-1">
+                {plan.features.map(feature => (
+                  <li key={feature}>✓ {feature}</li>
+                ))}
+              </ul>
+              <button
+                onClick={() => handleSubscribe(plan)}
+                disabled={!isPaymentReady || isSubscribed(plan) || !!busyId}
+                className="w-full py-3 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busyId === plan.id ? 'Subscribing...' : isSubscribed(plan) ? 'Subscribed' : 'Subscribe'}
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="mt-4 text-sm text-gray-500">
+          Subscribing grants a spend permission for exactly the plan price each period; it is only used for that plan.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Your Subscriptions</h2>
+          <button
+            onClick={loadSubscriptions}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+          >
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {subscriptions.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {isLoading ? 'Loading subscriptions...' : 'No subscriptions yet.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {subscriptions.map(subscription => {
+              const plan = getSubscriptionPlanById(subscription.planId);
+              const status = STATUS_STYLES[subscription.status];
+              const lastCharge = subscription.charges[subscription.charges.length - 1];
+              const isBusy = busyId === subscription.id;
+              const network = getNetworkByChainId(subscription.chainId);
+
+              return (
+                <li key={subscription.id} className="py-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-semibold text-gray-900">{plan?.name ?? subscription.planId}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatUSDC(subscription.price)} / {formatInterval(subscription.intervalDays)} · since{' '}
+                        {new Date(subscription.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+
+                  {subscription.status === 'active' && (
+                    <p className="text-sm text-gray-600">
+                      Next charge on {new Date(subscription.nextChargeAt).toLocaleDateString()}
+                    </p>
+                  )}
+                  {subscription.status === 'past_due' && (
+                    <p className="text-sm text-yellow-800">
+                      Payment failed{lastCharge?.error ? `: ${lastCharge.error}` : ''}. We&apos;ll retry on{' '}
+                      {new Date(subscription.nextChargeAt).toLocaleString()}; make sure you have enough USDC and the
+                      spend permission is still granted.
+                    </p>
+                  )}
+                  {subscription.status === 'canceled' && subscription.cancelReason && (
+                    <p className="text-sm text-gray-600">{subscription.cancelReason}</p>
+                  )}
+
+                  <ul className="mt-2 text-sm text-gray-600">
+                    {subscription.charges.slice(-RECENT_CHARGES).reverse().map(charge => (
+                      <li key={charge.id}>
+                        {new Date(charge.createdAt).toLocaleDateString()} · {formatUSDC(charge.amount)} ·{' '}
+                        {charge.status === 'paid' && charge.transactionHash && network ? (
+                          <a
+                            href={`${network.explorerUrl}/tx/${charge.transactionHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-700"
+                          >
+                            Paid
+                          </a>
+                        ) : charge.status === 'stranded' ? (
+                          <span className="text-yellow-700">Paid, transfer to merchant pending</span>
+                        ) : (
+                          <span className="text-red-600">Failed</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {subscription.status !== 'canceled' && (
+                    <div className="mt-3 flex gap-4 text-sm">
+                      {subscription.status === 'paused' ? (
+                        <button
+                          onClick={() => handleAction(subscription, 'resume')}
+                          disabled={!!busyId}
+                          className="text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+                        >
+                          {isBusy ? 'Updating...' : 'Resume'}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleAction(subscription, 'pause')}
+                          disabled={!!busyId}
+                          className="text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+                        >
+                          {isBusy ? 'Updating...' : 'Pause'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleAction(subscription, 'cancel')}
+                        disabled={!!busyId}
+                        className="text-red-600 hover:text-red-700 disabled:text-gray-400"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="mt-4 text-sm text-gray-500">
+          Canceling stops all charges. You can also revoke the plan&apos;s spend permission on the Permissions page.
+        </p>
+      </div>
+    </div>
+  );
+}
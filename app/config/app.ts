@@ -0,0 +1,143 @@
+/**
+ * App Configuration
+ *
+ * Typed, validated configuration read from environment variables.
+ * Values are checked once when this module loads (see `instrumentation.ts`
+ * for the server startup check); a missing required value or an address
+ * that is not EIP-55 checksummed fails fast with a `ConfigError` listing
+ * every problem.
+ */
+
+import { getAddress, isAddress, type Address } from 'viem';
+import { Money, parseMoney } from '../lib/money';
+
+export interface AppConfig {
+  appName: string;
+  appLogoUrl: string;
+  merchantAddress: Address; // Receives Base Pay payments
+  spenderAddress: Address; // Spender for spend permissions
+  spendAllowance: Money; // Default spend permission allowance
+  spendAllowanceMin: Money; // Smallest allowance a shopper can choose
+  spendAllowanceMax: Money; // Largest allowance a shopper can choose
+  spendPeriodDays: number; // Default spend permission period
+  spendPeriodMinDays: number;
+  spendPeriodMaxDays: number;
+  spendPermissionDurationDays: number; // Permissions expire this long after they are granted
+  subAccountTargetBalance: Money; // Default balance the Orders sub-account is topped up to
+  paymasterUrl: string | null; // Optional paymaster for gasless transactions
+  payerInfoCallbackUrl: string | null; // Public HTTPS URL of /api/payments/payer-info, called by the wallet
+}
+
+export class ConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid app configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}\nSee .env.example for the expected variables.`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+// NEXT_PUBLIC_ variables must be referenced literally so Next.js can inline them in the client bundle
+function readEnv(): Record<string, string | undefined> {
+  return {
+    NEXT_PUBLIC_APP_NAME: process.env.NEXT_PUBLIC_APP_NAME,
+    NEXT_PUBLIC_APP_LOGO_URL: process.env.NEXT_PUBLIC_APP_LOGO_URL,
+    NEXT_PUBLIC_MERCHANT_ADDRESS: process.env.NEXT_PUBLIC_MERCHANT_ADDRESS,
+    NEXT_PUBLIC_SPENDER_ADDRESS: process.env.NEXT_PUBLIC_SPENDER_ADDRESS,
+    NEXT_PUBLIC_SPEND_ALLOWANCE_USDC: process.env.NEXT_PUBLIC_SPEND_ALLOWANCE_USDC,
+    NEXT_PUBLIC_SPEND_ALLOWANCE_MIN_USDC: process.env.NEXT_PUBLIC_SPEND_ALLOWANCE_MIN_USDC,
+    NEXT_PUBLIC_SPEND_ALLOWANCE_MAX_USDC: process.env.NEXT_PUBLIC_SPEND_ALLOWANCE_MAX_USDC,
+    NEXT_PUBLIC_SPEND_PERIOD_DAYS: process.env.NEXT_PUBLIC_SPEND_PERIOD_DAYS,
+    NEXT_PUBLIC_SPEND_PERIOD_MIN_DAYS: process.env.NEXT_PUBLIC_SPEND_PERIOD_MIN_DAYS,
+    NEXT_PUBLIC_SPEND_PERIOD_MAX_DAYS: process.env.NEXT_PUBLIC_SPEND_PERIOD_MAX_DAYS,
+    NEXT_PUBLIC_SPEND_PERMISSION_DURATION_DAYS: process.env.NEXT_PUBLIC_SPEND_PERMISSION_DURATION_DAYS,
+    NEXT_PUBLIC_SUB_ACCOUNT_TARGET_BALANCE_USDC: process.env.NEXT_PUBLIC_SUB_ACCOUNT_TARGET_BALANCE_USDC,
+    NEXT_PUBLIC_PAYMASTER_URL: process.env.NEXT_PUBLIC_PAYMASTER_URL,
+    NEXT_PUBLIC_PAYER_INFO_CALLBACK_URL: process.env.NEXT_PUBLIC_PAYER_INFO_CALLBACK_URL,
+  };
+}
+
+/**
+ * Parse and validate the configuration from environment variables
+ */
+export function loadAppConfig(env: Record<string, string | undefined> = readEnv()): AppConfig {
+  const issues: string[] = [];
+
+  const requireAddress = (name: string): Address => {
+    const value = env[name];
+    if (!value) {
+      issues.push(`${name} is required`);
+    } else if (!isAddress(value, { strict: false })) {
+      issues.push(`${name} is not a valid address: ${value}`);
+    } else if (getAddress(value) !== value) {
+      issues.push(`${name} must be a checksummed address (expected ${getAddress(value)})`);
+    }
+    return value as Address;
+  };
+
+  const optionalPositiveNumber = (name: string, fallback: string, integer = false): string => {
+    const value = env[name] || fallback;
+    const pattern = integer ? /^\d+$/ : /^\d+(\.\d{1,6})?$/;
+    if (!pattern.test(value) || Number(value) <= 0) {
+      issues.push(`${name} must be a positive ${integer ? 'integer' : 'number'}, got: ${value}`);
+    }
+    return value;
+  };
+
+  const merchantAddress = requireAddress('NEXT_PUBLIC_MERCHANT_ADDRESS');
+  const spenderAddress = requireAddress('NEXT_PUBLIC_SPENDER_ADDRESS');
+  const allowance = optionalPositiveNumber('NEXT_PUBLIC_SPEND_ALLOWANCE_USDC', '20');
+  const allowanceMin = optionalPositiveNumber('NEXT_PUBLIC_SPEND_ALLOWANCE_MIN_USDC', '1');
+  const allowanceMax = optionalPositiveNumber('NEXT_PUBLIC_SPEND_ALLOWANCE_MAX_USDC', '100');
+  const periodDays = optionalPositiveNumber('NEXT_PUBLIC_SPEND_PERIOD_DAYS', '1', true);
+  const periodMinDays = optionalPositiveNumber('NEXT_PUBLIC_SPEND_PERIOD_MIN_DAYS', '1', true);
+  const periodMaxDays = optionalPositiveNumber('NEXT_PUBLIC_SPEND_PERIOD_MAX_DAYS', '30', true);
+  const durationDays = optionalPositiveNumber('NEXT_PUBLIC_SPEND_PERMISSION_DURATION_DAYS', '365', true);
+  const subAccountTargetBalance = optionalPositiveNumber('NEXT_PUBLIC_SUB_ACCOUNT_TARGET_BALANCE_USDC', '10');
+
+  // Defaults must sit inside the bounds the shopper can choose from
+  if (Number(allowanceMin) > Number(allowance) || Number(allowance) > Number(allowanceMax)) {
+    issues.push(`NEXT_PUBLIC_SPEND_ALLOWANCE_USDC (${allowance}) must be between NEXT_PUBLIC_SPEND_ALLOWANCE_MIN_USDC (${allowanceMin}) and NEXT_PUBLIC_SPEND_ALLOWANCE_MAX_USDC (${allowanceMax})`);
+  }
+  if (Number(periodMinDays) > Number(periodDays) || Number(periodDays) > Number(periodMaxDays)) {
+    issues.push(`NEXT_PUBLIC_SPEND_PERIOD_DAYS (${periodDays}) must be between NEXT_PUBLIC_SPEND_PERIOD_MIN_DAYS (${periodMinDays}) and NEXT_PUBLIC_SPEND_PERIOD_MAX_DAYS (${periodMaxDays})`);
+  }
+  if (Number(durationDays) < Number(periodMaxDays)) {
+    issues.push(`NEXT_PUBLIC_SPEND_PERMISSION_DURATION_DAYS (${durationDays}) must be at least NEXT_PUBLIC_SPEND_PERIOD_MAX_DAYS (${periodMaxDays})`);
+  }
+
+  const paymasterUrl = env.NEXT_PUBLIC_PAYMASTER_URL || null;
+  if (paymasterUrl && !URL.canParse(paymasterUrl)) {
+    issues.push(`NEXT_PUBLIC_PAYMASTER_URL is not a valid URL: ${paymasterUrl}`);
+  }
+
+  // The wallet calls this from its own servers, so it must be publicly reachable over HTTPS
+  const payerInfoCallbackUrl = env.NEXT_PUBLIC_PAYER_INFO_CALLBACK_URL || null;
+  if (payerInfoCallbackUrl && (!URL.canParse(payerInfoCallbackUrl) || new URL(payerInfoCallbackUrl).protocol !== 'https:')) {
+    issues.push(`NEXT_PUBLIC_PAYER_INFO_CALLBACK_URL must be an https URL: ${payerInfoCallbackUrl}`);
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    appName: env.NEXT_PUBLIC_APP_NAME || 'Mini e-Commerce Checkout',
+    appLogoUrl: env.NEXT_PUBLIC_APP_LOGO_URL || '/next.svg', // Using Next.js logo as placeholder
+    merchantAddress,
+    spenderAddress,
+    spendAllowance: parseMoney(allowance),
+    spendAllowanceMin: parseMoney(allowanceMin),
+    spendAllowanceMax: parseMoney(allowanceMax),
+    spendPeriodDays: Number(periodDays),
+    spendPeriodMinDays: Number(periodMinDays),
+    spendPeriodMaxDays: Number(periodMaxDays),
+    spendPermissionDurationDays: Number(durationDays),
+    subAccountTargetBalance: parseMoney(subAccountTargetBalance),
+    paymasterUrl,
+    payerInfoCallbackUrl,
+  };
+}
+
+export const appConfig = loadAppConfig();
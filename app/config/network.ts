@@ -0,0 +1,87 @@
+/**
+ * Network Configuration
+ *
+ * Single source of truth for chain-specific settings.
+ * The default network comes from `NEXT_PUBLIC_NETWORK` ('base' or
+ * 'base-sepolia'); the client can switch at runtime through
+ * `BaseAccountContext.switchNetwork`, which persists the choice.
+ */
+
+import type { Address, Chain } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+
+export type NetworkName = 'base' | 'base-sepolia';
+
+export interface NetworkConfig {
+  name: NetworkName;
+  label: string;
+  chain: Chain;
+  usdcAddress: Address;
+  siweChainId: `0x${string}`; // Hex chain ID for signInWithEthereum
+  testnet: boolean; // Passed to Base Pay's pay() and getPaymentStatus()
+  explorerUrl: string;
+  bundlerUrl: string; // Resolves Base Pay payment IDs (user operation hashes)
+}
+
+// Public bundler endpoints, the same ones the SDK's getPaymentStatus queries
+const BASE_BUNDLER_URL = 'https://api.developer.coinbase.com/rpc/v1/base/S-fOd2n2Oi4fl4e1Crm83XeDXZ7tkg8O';
+const BASE_SEPOLIA_BUNDLER_URL = 'https://api.developer.coinbase.com/rpc/v1/base-sepolia/S-fOd2n2Oi4fl4e1Crm83XeDXZ7tkg8O';
+
+export const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  base: {
+    name: 'base',
+    label: 'Base Mainnet',
+    chain: base,
+    usdcAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    siweChainId: '0x2105',
+    testnet: false,
+    explorerUrl: 'https://basescan.org',
+    bundlerUrl: BASE_BUNDLER_URL,
+  },
+  'base-sepolia': {
+    name: 'base-sepolia',
+    label: 'Base Sepolia',
+    chain: baseSepolia,
+    usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    siweChainId: '0x14a34',
+    testnet: true,
+    explorerUrl: 'https://sepolia.basescan.org',
+    bundlerUrl: BASE_SEPOLIA_BUNDLER_URL,
+  },
+};
+
+// localStorage key for the runtime network override
+export const NETWORK_STORAGE_KEY = 'base-account-network';
+
+export function isNetworkName(value: unknown): value is NetworkName {
+  return typeof value === 'string' && value in NETWORKS;
+}
+
+/**
+ * Network selected by the NEXT_PUBLIC_NETWORK environment variable
+ */
+export function getDefaultNetworkName(): NetworkName {
+  const configured = process.env.NEXT_PUBLIC_NETWORK;
+  return isNetworkName(configured) ? configured : 'base';
+}
+
+/**
+ * Network for the current runtime: the persisted override in the browser,
+ * otherwise the environment default
+ */
+export function getNetworkConfig(): NetworkConfig {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (isNetworkName(stored)) {
+      return NETWORKS[stored];
+    }
+  }
+  return NETWORKS[getDefaultNetworkName()];
+}
+
+/**
+ * Look up a supported network by its numeric chain ID
+ */
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find(network => network.chain.id === chainId);
+}
@@ -7,18 +7,23 @@
  * Manages user authentication using Base Account SDK.
  * This context handles:
  * - User sign-in with Base Account
+ * - Server-issued, single-use sign-in nonces
+ * - Server-side verification of the SIWE message and signature
  * - Authentication state management
- * - Session persistence with localStorage
+ * - Session restoration from the HTTP-only session cookie
+ * - Session expiry, idle timeout and re-validation against the connected account
+ * - Invalidating the session when the wallet switches accounts, networks or disconnects
  * - Sign-out functionality
  */
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { useBaseAccount } from './BaseAccountContext';
 
 interface User {
   address: string;
-  message: string;
-  signature: string;
+  chainId: number; // Chain the SIWE message was signed for
+  issuedAt: number; // Unix milliseconds, from the SIWE message
+  expiresAt: number; // Unix milliseconds, from the SIWE message (capped server-side)
 }
 
 interface AuthContextType {
@@ -28,40 +33,134 @@ interface AuthContextType {
   error: string | null;
   signIn: () => Promise<void>;
   signOut: () => void;
+  sessionExpiresAt: number | null;
+  refreshSession: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
   children: ReactNode;
+  idleTimeoutMs?: number; // Sign out after this long without user activity (0 disables)
 }
 
-export function AuthProvider({ children }: AuthProviderProps) {
-  const { provider, isInitialized } = useBaseAccount();
+// Default idle timeout of 30 minutes
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// DOM events that count as user activity for the idle timeout
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+export function AuthProvider({ children, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS }: AuthProviderProps) {
+  const { provider, isInitialized, accounts, isAccountResolved, network } = useBaseAccount();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Check for existing authentication on mount
-  useEffect(() => {
-    if (isInitialized && provider) {
-      checkExistingAuth();
-    }
-  }, [isInitialized, provider]);
+  const signOut = useCallback(() => {
+    setUser(null);
+    fetch('/api/auth/session', { method: 'DELETE' }).catch((err) => {
+      console.error('Error clearing session:', err);
+    });
+    console.log('User signed out');
+  }, []);
 
-  const checkExistingAuth = async () => {
+  /**
+   * Re-load the session from the server and check that its address is still
+   * the account connected in the wallet. Signs out if either check fails.
+   */
+  const refreshSession = useCallback(async (): Promise<boolean> => {
     try {
-      const storedAuth = localStorage.getItem('base-account-auth');
-      if (storedAuth) {
-        const authData = JSON.parse(storedAuth);
-        setUser(authData);
-        console.log('Restored authentication from localStorage:', authData);
+      const response = await fetch('/api/auth/session', { cache: 'no-store' });
+      if (!response.ok) {
+        setUser(null);
+        return false;
+      }
+
+      const { user: sessionUser } = await response.json() as { user: User };
+
+      if (provider) {
+        const accounts = await (provider as unknown as { request: (params: unknown) => Promise<string[]> }).request({
+          method: 'eth_accounts',
+        });
+        const isConnected = accounts.some(account => account.toLowerCase() === sessionUser.address.toLowerCase());
+        if (!isConnected) {
+          console.log('Session address is no longer the connected account, signing out');
+          signOut();
+          return false;
+        }
       }
+
+      setUser(sessionUser);
+      console.log('Restored authentication from session:', sessionUser);
+      return true;
     } catch (err) {
-      console.error('Error checking existing auth:', err);
+      console.error('Error refreshing session:', err);
+      return false;
+    }
+  }, [provider, signOut]);
+
+  // Check for existing authentication on mount
+  useEffect(() => {
+    if (isInitialized && provider) {
+      // Sessions used to live in localStorage unverified; drop any leftovers
       localStorage.removeItem('base-account-auth');
+      refreshSession();
     }
-  };
+  }, [isInitialized, provider, refreshSession]);
+
+  // Invalidate the session when the signed-in address is no longer connected
+  useEffect(() => {
+    if (!user || !isAccountResolved) return;
+
+    const isConnected = accounts.some(account => account.toLowerCase() === user.address.toLowerCase());
+    if (!isConnected) {
+      console.log('Wallet account changed or disconnected, signing out');
+      signOut();
+    }
+  }, [user, accounts, isAccountResolved, signOut]);
+
+  // Sessions are bound to the chain they were signed on
+  useEffect(() => {
+    if (user && user.chainId !== network.chain.id) {
+      console.log('Network changed, signing out');
+      signOut();
+    }
+  }, [user, network, signOut]);
+
+  // Sign out automatically when the session expires
+  useEffect(() => {
+    if (!user) return;
+
+    const timeout = setTimeout(() => {
+      console.log('Session expired');
+      signOut();
+    }, Math.max(user.expiresAt - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [user, signOut]);
+
+  // Sign out after a period without user activity
+  useEffect(() => {
+    if (!user || idleTimeoutMs <= 0) return;
+
+    let timeout = setTimeout(onIdle, idleTimeoutMs);
+
+    function onIdle() {
+      console.log('Signing out after idle timeout');
+      signOut();
+    }
+
+    function onActivity() {
+      clearTimeout(timeout);
+      timeout = setTimeout(onIdle, idleTimeoutMs);
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+    };
+  }, [user, idleTimeoutMs, signOut]);
 
   const signIn = async () => {
     if (!provider) {
@@ -78,9 +177,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.log('Provider available:', !!provider);
       console.log('Provider type:', typeof provider);
       
-      // Generate a nonce for security
-      const nonce = window.crypto.randomUUID().replace(/-/g, '');
-      console.log('Generated nonce:', nonce);
+      // Fetch a single-use nonce from the server, bound to this browser session
+      const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' });
+      if (!nonceResponse.ok) {
+        throw new Error('Failed to get sign-in nonce');
+      }
+      const { nonce } = await nonceResponse.json();
+      console.log('Received nonce:', nonce);
 
       // Request authentication using wallet_connect with signInWithEthereum capability
       const result = await (provider as unknown as { request: (params: unknown) => Promise<unknown> }).request({
@@ -90,7 +193,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           capabilities: {
             signInWithEthereum: { 
               nonce, 
-              chainId: '0x2105' // Base Mainnet
+              chainId: network.siweChainId
             }
           }
         }]
@@ -103,18 +206,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
         const { address } = account;
         const { message, signature } = account.capabilities.signInWithEthereum;
 
-        const userData: User = {
-          address,
-          message,
-          signature
-        };
-
-        setUser(userData);
-        
-        // Store authentication data in localStorage
-        localStorage.setItem('base-account-auth', JSON.stringify(userData));
-        
-        console.log('Authentication successful:', userData);
+        // Verify the signature server-side and receive a session cookie
+        const response = await fetch('/api/auth/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ address, message, signature }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Sign-in verification failed');
+        }
+
+        setUser(data.user);
+        console.log('Authentication successful:', data.user);
       } else {
         throw new Error('No accounts returned from authentication');
       }
@@ -127,19 +232,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const signOut = () => {
-    setUser(null);
-    localStorage.removeItem('base-account-auth');
-    console.log('User signed out');
-  };
-
   const value: AuthContextType = {
     user,
     isAuthenticated: !!user,
     isLoading,
     error,
     signIn,
-    signOut
+    signOut,
+    sessionExpiresAt: user?.expiresAt ?? null,
+    refreshSession,
   };
 
   return (
@@ -8,17 +8,34 @@
  * - Base Account SDK instance
  * - Ethereum provider for blockchain interactions
  * - Viem wallet client for transaction handling
+ * - Active account and chain, kept current via EIP-1193 provider events
+ * - Network selection (Base Mainnet or Base Sepolia) with a runtime switch
  * - Initialization state and error handling
  */
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { createWalletClient, custom, type WalletClient } from 'viem';
-import { base } from 'viem/chains';
+import type { ProviderInterface } from '@base-org/account';
+import {
+  getDefaultNetworkName,
+  getNetworkConfig,
+  NetworkConfig,
+  NetworkName,
+  NETWORKS,
+  NETWORK_STORAGE_KEY,
+} from '../config/network';
+import { appConfig } from '../config/app';
 
 interface BaseAccountContextType {
   sdk: unknown | null;
   provider: unknown | null;
   walletClient: WalletClient | null;
+  accounts: string[]; // Connected accounts, empty when disconnected
+  account: string | null; // Active (first) connected account
+  chainId: number | null;
+  isAccountResolved: boolean; // False until the connected accounts are first known
+  network: NetworkConfig;
+  switchNetwork: (name: NetworkName) => void;
   isInitialized: boolean;
   error: string | null;
 }
@@ -33,10 +50,40 @@ export function BaseAccountProvider({ children }: BaseAccountProviderProps) {
   const [sdk, setSdk] = useState<unknown | null>(null);
   const [provider, setProvider] = useState<unknown | null>(null);
   const [walletClient, setWalletClient] = useState<WalletClient | null>(null);
+  const [accounts, setAccounts] = useState<string[]>([]);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [isAccountResolved, setIsAccountResolved] = useState(false);
+  // Null until the persisted choice is read on the client, to avoid hydration mismatches
+  const [networkName, setNetworkName] = useState<NetworkName | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const network = NETWORKS[networkName ?? getDefaultNetworkName()];
+
+  // Load the network selection (runtime override or environment default)
+  useEffect(() => {
+    setNetworkName(getNetworkConfig().name);
+  }, []);
+
+  /**
+   * Switch to another network; the SDK is re-initialized for its chain
+   */
+  const switchNetwork = (name: NetworkName) => {
+    if (name === networkName) return;
+
+    console.log('Switching network to', NETWORKS[name].label);
+    localStorage.setItem(NETWORK_STORAGE_KEY, name);
+    setIsInitialized(false);
+    setIsAccountResolved(false);
+    setAccounts([]);
+    setNetworkName(name);
+  };
+
   useEffect(() => {
+    if (!networkName) return;
+
+    const { chain } = NETWORKS[networkName];
+
     const initializeBaseAccount = async () => {
       try {
         setError(null);
@@ -54,11 +101,11 @@ export function BaseAccountProvider({ children }: BaseAccountProviderProps) {
         
         // Initialize Base Account SDK
         const baseAccountSDK = createBaseAccountSDK({
-          appName: 'Mini e-Commerce Checkout',
-          appLogoUrl: '/next.svg', // Using Next.js logo as placeholder
-          appChainIds: [base.id], // Base Mainnet
-          // Note: Paymaster URL needs to be obtained from Coinbase Developer Portal
-          // For demo purposes, we'll handle this in the payment service
+          appName: appConfig.appName,
+          appLogoUrl: appConfig.appLogoUrl,
+          appChainIds: [chain.id],
+          // Paymaster URL is obtained from the Coinbase Developer Portal (optional)
+          ...(appConfig.paymasterUrl && { paymasterUrls: { [chain.id]: appConfig.paymasterUrl } }),
         });
 
         // Get the provider
@@ -66,7 +113,7 @@ export function BaseAccountProvider({ children }: BaseAccountProviderProps) {
         
         // Create Viem wallet client
         const client = createWalletClient({
-          chain: base,
+          chain,
           transport: custom(ethereumProvider)
         });
 
@@ -101,12 +148,63 @@ export function BaseAccountProvider({ children }: BaseAccountProviderProps) {
     };
 
     initializeBaseAccount();
-  }, []);
+  }, [networkName]);
+
+  /**
+   * Bridge EIP-1193 provider events into React state so the rest of the app
+   * follows account switches, network changes and disconnects
+   */
+  useEffect(() => {
+    if (!provider) return;
+
+    const eip1193 = provider as ProviderInterface;
+
+    const handleAccountsChanged = (newAccounts: string[]) => {
+      console.log('Accounts changed:', newAccounts);
+      setAccounts(newAccounts);
+      setIsAccountResolved(true);
+    };
+
+    const handleChainChanged = (newChainId: string) => {
+      console.log('Chain changed:', newChainId);
+      setChainId(Number(newChainId));
+    };
+
+    const handleDisconnect = (disconnectError: unknown) => {
+      console.log('Provider disconnected:', disconnectError);
+      setAccounts([]);
+      setIsAccountResolved(true);
+    };
+
+    eip1193.on('accountsChanged', handleAccountsChanged);
+    eip1193.on('chainChanged', handleChainChanged);
+    eip1193.on('disconnect', handleDisconnect);
+
+    // Load the current state; events only report later changes
+    eip1193.request({ method: 'eth_accounts' })
+      .then(result => handleAccountsChanged(result as string[]))
+      .catch(err => console.error('Failed to get accounts:', err));
+    eip1193.request({ method: 'eth_chainId' })
+      .then(result => setChainId(Number(result)))
+      .catch(err => console.error('Failed to get chain ID:', err));
+
+    return () => {
+      eip1193.removeListener('accountsChanged', handleAccountsChanged);
+      eip1193.removeListener('chainChanged', handleChainChanged);
+      eip1193.removeListener('disconnect', handleDisconnect);
+    };
+  }, [provider]);
 
   const value: BaseAccountContextType = {
     sdk,
     provider,
     walletClient,
+    accounts,
+    account: accounts[0] ?? null,
+    chainId,
+    isAccountResolved,
+    network,
+    switchNetwork,
     isInitialized,
     error
   };
@@ -0,0 +1,229 @@
+'use client';
+
+/**
+ * Cart Context
+ *
+ * Manages the shopping cart built on the `Cart` and `CartItem` types.
+ * This context handles:
+ * - Adding, removing and re-quantifying items
+ * - Totals kept as `Money` (USDC minor units)
+ * - A promotion code, re-quoted by the server whenever the cart changes
+ * - Persistence across reloads
+ * - Checkout of the whole cart as a single payment and order
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { usePayment } from './PaymentContext';
+import { getProductById } from '../data/products';
+import { appConfig } from '../config/app';
+import { Cart, CartItem, Product } from '../types/product';
+import { PaymentResult } from '../services/paymentService';
+import { PromotionService } from '../services/promotionService';
+import { PromotionQuote } from '../types/promotion';
+import { addMoney, formatUSDC, multiplyMoney, ZERO_MONEY } from '../lib/money';
+
+// localStorage key for the persisted cart
+const CART_STORAGE_KEY = 'base-account-cart';
+
+// Stored form of a cart line; products are looked up again on load
+interface StoredCartItem {
+  productId: string;
+  quantity: number;
+}
+
+interface CartContextType {
+  cart: Cart;
+  items: CartItem[];
+  itemCount: number;
+  addItem: (product: Product, quantity?: number) => void;
+  removeItem: (productId: string) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  clearCart: () => void;
+  applyPromotionCode: (code: string) => Promise<boolean>;
+  removePromotionCode: () => void;
+  promotionError: string | null;
+  checkout: () => Promise<PaymentResult>;
+  isCheckingOut: boolean;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+const promotionService = new PromotionService();
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+function loadCart(): CartItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || '[]') as StoredCartItem[];
+    return stored.flatMap(({ productId, quantity }) => {
+      const product = getProductById(productId);
+      return product && quantity > 0 ? [{ product, quantity }] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function CartProvider({ children }: CartProviderProps) {
+  const { processPayment } = usePayment();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [promotionCode, setPromotionCode] = useState<string | null>(null);
+  const [promotionQuote, setPromotionQuote] = useState<PromotionQuote | null>(null);
+  const [promotionError, setPromotionError] = useState<string | null>(null);
+
+  // Restore the cart after mount so server and client render the same markup
+  useEffect(() => {
+    setItems(loadCart());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const stored: StoredCartItem[] = items.map(item => ({ productId: item.product.id, quantity: item.quantity }));
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(stored));
+  }, [items, isLoaded]);
+
+  const addItem = useCallback((product: Product, quantity = 1) => {
+    setItems(current => {
+      const existing = current.find(item => item.product.id === product.id);
+      if (existing) {
+        return current.map(item =>
+          item.product.id === product.id ? { ...item, quantity: item.quantity + quantity } : item
+        );
+      }
+      return [...current, { product, quantity }];
+    });
+  }, []);
+
+  const removeItem = useCallback((productId: string) => {
+    setItems(current => current.filter(item => item.product.id !== productId));
+  }, []);
+
+  const updateQuantity = useCallback((productId: string, quantity: number) => {
+    setItems(current => quantity <= 0
+      ? current.filter(item => item.product.id !== productId)
+      : current.map(item => item.product.id === productId ? { ...item, quantity } : item)
+    );
+  }, []);
+
+  const clearCart = useCallback(() => {
+    setItems([]);
+    setPromotionCode(null);
+  }, []);
+
+  /**
+   * Ask the server what a code takes off the current cart
+   */
+  const quotePromotion = useCallback(async (code: string, cartItems: CartItem[]): Promise<boolean> => {
+    try {
+      const lines = cartItems.map(item => ({ productId: item.product.id, quantity: item.quantity }));
+      setPromotionQuote(await promotionService.quote(code, lines));
+      setPromotionError(null);
+      return true;
+    } catch (error) {
+      setPromotionQuote(null);
+      setPromotionError(error instanceof Error ? error.message : 'Failed to apply promotion code');
+      return false;
+    }
+  }, []);
+
+  const applyPromotionCode = useCallback(async (code: string): Promise<boolean> => {
+    setPromotionCode(code);
+    return quotePromotion(code, items);
+  }, [items, quotePromotion]);
+
+  const removePromotionCode = useCallback(() => {
+    setPromotionCode(null);
+  }, []);
+
+  // The discount depends on the cart contents, so re-quote when they change
+  useEffect(() => {
+    if (!promotionCode) {
+      setPromotionQuote(null);
+      setPromotionError(null);
+      return;
+    }
+    if (items.length > 0) {
+      quotePromotion(promotionCode, items);
+    }
+  }, [items, promotionCode, quotePromotion]);
+
+  const subtotal = useMemo(
+    () => addMoney(...items.map(item => multiplyMoney(item.product.price, item.quantity))),
+    [items]
+  );
+  // Ignore a quote for an older cart until the re-quote arrives
+  const activeQuote = promotionQuote && promotionQuote.subtotal === subtotal ? promotionQuote : null;
+  const discount = activeQuote ? activeQuote.discount : ZERO_MONEY;
+  const itemCount = items.reduce((count, item) => count + item.quantity, 0);
+  const cart: Cart = {
+    items,
+    subtotal,
+    discount,
+    total: subtotal - discount,
+    promotionCode: activeQuote?.code,
+  };
+
+  /**
+   * Pay for the whole cart in one payment, recorded as a single order
+   * with one line per product
+   */
+  const checkout = async (): Promise<PaymentResult> => {
+    if (items.length === 0) {
+      return { success: false, error: 'Cart is empty' };
+    }
+
+    setIsCheckingOut(true);
+    try {
+      console.log('🛒 Checking out cart:', items.length, 'lines,', formatUSDC(cart.total));
+      const result = await processPayment(
+        cart.total,
+        appConfig.merchantAddress,
+        items.map(item => ({ productId: item.product.id, quantity: item.quantity })),
+        cart.promotionCode
+      );
+
+      // A pending payment may still go through, so its order owns these lines now
+      if (result.success || result.pending) {
+        clearCart();
+      }
+      return result;
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  const value: CartContextType = {
+    cart,
+    items,
+    itemCount,
+    addItem,
+    removeItem,
+    updateQuantity,
+    clearCart,
+    applyPromotionCode,
+    removePromotionCode,
+    promotionError,
+    checkout,
+    isCheckingOut,
+  };
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
@@ -7,52 +7,249 @@
  * Manages payment processing and spend permissions for the Base Account integration.
  * This context handles:
  * - Spend permission requests and status checking
- * - Payment processing using Base Pay
+ * - Discovery of existing onchain spend permissions on load and after sign-in
+ * - Listing and revoking the user's spend permissions
+ * - Granting the per-plan spend permission a subscription is billed through
+ * - Payment processing through the spend permission, falling back to Base Pay
+ * - Split payments for marketplace orders, sent as one batch of transfers
+ * - Checkout from the Orders sub-account without a popup when auto-spend
+ *   allows it, and topping that sub-account up to its target balance
+ * - Cancellable tracking of Base Pay payments, resumed after a reload
+ * - Pending order creation before payment and finalisation after
+ * - Daily/monthly spend tracking, restored when orders are refunded; a
+ *   sub-account payment not confirmed at checkout only counts once its
+ *   order is paid
  * - USDC balance queries
  * - Payment state management
  */
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { useBaseAccount } from './BaseAccountContext';
 import { useAuth } from './AuthContext';
-import { PaymentService, PaymentRequest, PaymentResult } from '../services/paymentService';
+import { SubAccount, useSubAccount } from './SubAccountContext';
+import { PaymentService, PaymentRequest, PaymentResult, PendingPayment } from '../services/paymentService';
+import { OrderService } from '../services/orderService';
+import { SpendLimitService } from '../services/spendLimitService';
+import { AutoSpendConfig, AutoSpendService } from '../services/autoSpendService';
+import { Order, OrderLineInput } from '../types/order';
+import { Money, ZERO_MONEY, formatMoney, formatUSDC } from '../lib/money';
+import { requiresPayerInfo } from '../lib/payerInfo';
+import { SpendPermissionService, SpendPermission, SpendPermissionDetails, SpendPermissionOptions } from '../services/spendPermissionService';
+import { SubscriptionPlan } from '../types/subscription';
 
 interface PaymentContextType {
   isProcessing: boolean;
   lastPaymentResult: PaymentResult | null;
-  processPayment: (amount: number, recipientAddress: string) => Promise<PaymentResult>;
+  processPayment: (
+    amount: Money,
+    recipientAddress: string,
+    lines?: OrderLineInput[],
+    promotionCode?: string,
+    fromOrdersSubAccount?: boolean
+  ) => Promise<PaymentResult>;
   clearPaymentResult: () => void;
+  pendingPayment: PendingPayment | null;
+  resumePendingPayment: () => Promise<PaymentResult | null>;
+  cancelPaymentTracking: () => void;
   getUSDCBalance: (address: string) => Promise<string>;
   isPaymentReady: boolean;
   hasSpendPermission: boolean;
-  requestSpendPermission: () => Promise<boolean>;
+  spendPermission: SpendPermissionDetails | null;
+  spendPermissions: SpendPermissionDetails[];
+  isCheckingPermission: boolean;
+  refreshSpendPermission: () => Promise<void>;
+  requestSpendPermission: (options: SpendPermissionOptions) => Promise<boolean>;
   isRequestingPermission: boolean;
+  revokeSpendPermission: (details: SpendPermissionDetails) => Promise<{ success: boolean; error?: string }>;
+  revokingPermissionHash: string | null;
+  requestSubscriptionPermission: (plan: SubscriptionPlan) => Promise<SpendPermission>;
+  applyOrderUpdates: (orders: Order[]) => void;
+  autoSpendConfig: AutoSpendConfig | null;
+  updateAutoSpendConfig: (config: AutoSpendConfig) => void;
+  canPayFromOrdersSubAccount: (amount: Money) => boolean;
+  ordersSubAccountBalance: Money | null;
+  refreshOrdersSubAccountBalance: () => Promise<void>;
+  fundOrdersSubAccount: () => Promise<PaymentResult>;
+  isFundingSubAccount: boolean;
 }
 
 const PaymentContext = createContext<PaymentContextType | undefined>(undefined);
 
+const orderService = new OrderService();
+const spendLimitService = new SpendLimitService();
+const autoSpendService = new AutoSpendService();
+
 interface PaymentProviderProps {
   children: ReactNode;
 }
 
 export function PaymentProvider({ children }: PaymentProviderProps) {
-  const { sdk, provider, walletClient, isInitialized } = useBaseAccount();
+  const { sdk, provider, walletClient, isInitialized, account, isAccountResolved, network } = useBaseAccount();
   const { user } = useAuth();
+  const { ordersSubAccount, recordSubAccountSpend } = useSubAccount();
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastPaymentResult, setLastPaymentResult] = useState<PaymentResult | null>(null);
-  const [hasSpendPermission, setHasSpendPermission] = useState(false);
+  const [spendPermissions, setSpendPermissions] = useState<SpendPermissionDetails[]>([]);
+  const [isCheckingPermission, setIsCheckingPermission] = useState(false);
   const [isRequestingPermission, setIsRequestingPermission] = useState(false);
+  const [revokingPermissionHash, setRevokingPermissionHash] = useState<string | null>(null);
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(null);
+  const [autoSpendConfig, setAutoSpendConfig] = useState<AutoSpendConfig | null>(null);
+  const [ordersSubAccountBalance, setOrdersSubAccountBalance] = useState<Money | null>(null);
+  const [isFundingSubAccount, setIsFundingSubAccount] = useState(false);
+
+  // Cancels status polling for the payment being tracked
+  const trackingController = useRef<AbortController | null>(null);
+
+  // The permission payments are charged through; subscription permissions only pay their plan
+  const spendPermission = spendPermissions.find(details => details.isActive && !details.subscriptionPlanId) ?? null;
+
+  // Drop payment state whenever the paying identity goes away (sign-out,
+  // account switch or wallet disconnect) so nothing is paid from a stale account
+  useEffect(() => {
+    if (!user || (isAccountResolved && !account)) {
+      trackingController.current?.abort();
+      setSpendPermissions([]);
+      setLastPaymentResult(null);
+      setPendingPayment(null);
+    }
+  }, [user, account, isAccountResolved]);
 
   const paymentService = React.useMemo(() => {
     if (sdk && provider && walletClient) {
-      return new PaymentService(sdk, provider, walletClient);
+      return new PaymentService(sdk, provider, walletClient, network);
+    }
+    return null;
+  }, [sdk, provider, walletClient, network]);
+
+  /**
+   * Start a new tracking run, cancelling any previous one
+   */
+  const startTracking = (): AbortSignal => {
+    trackingController.current?.abort();
+    trackingController.current = new AbortController();
+    return trackingController.current.signal;
+  };
+
+  /**
+   * Continue tracking the payment left in flight by an earlier visit
+   */
+  const userAddress = user?.address;
+  const resumePendingPayment = useCallback(async (): Promise<PaymentResult | null> => {
+    if (!paymentService || !userAddress) {
+      return null;
+    }
+
+    const pending = paymentService.getPendingPayment(userAddress);
+    setPendingPayment(pending);
+    if (!pending) {
+      return null;
+    }
+
+    trackingController.current?.abort();
+    const controller = new AbortController();
+    trackingController.current = controller;
+
+    setIsProcessing(true);
+    try {
+      const result = await paymentService.resumePendingPayment(pending, controller.signal);
+      if (pending.request.orderId && !controller.signal.aborted) {
+        await orderService.recordPaymentResult(pending.request.orderId, result);
+      }
+      if (result.success) {
+        spendLimitService.recordSpend(pending.request.amount);
+      }
+      if (!controller.signal.aborted) {
+        setLastPaymentResult(result);
+        setPendingPayment(result.pending ? pending : null);
+      }
+      return result;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [paymentService, userAddress]);
+
+  // Pick up an in-flight payment after a reload, and stop polling on unmount
+  useEffect(() => {
+    resumePendingPayment();
+    return () => trackingController.current?.abort();
+  }, [resumePendingPayment]);
+
+  /**
+   * Catch up with what the server settled on these orders: give back spend
+   * budget for refunds the merchant has issued, and count sub-account
+   * payments that were confirmed after checkout
+   */
+  const applyOrderUpdates = useCallback((orders: Order[]) => {
+    for (const order of orders) {
+      for (const refund of order.refunds ?? []) {
+        if (refund.status === 'completed' && spendLimitService.recordRefund(refund.id, refund.amount, order.paidAt ?? order.createdAt)) {
+          console.log('↩️ Restored spend budget for refund', refund.id);
+        }
+      }
+    }
+
+    for (const spend of autoSpendService.settlePendingSpends(orders)) {
+      spendLimitService.recordSpend(spend.amount, spend.subAccountId);
+      recordSubAccountSpend(spend.subAccountId, spend.amount);
+      console.log('✅ Sub-account payment confirmed for order', spend.orderId);
+    }
+  }, [recordSubAccountSpend]);
+
+  // Refunds and late payment outcomes are settled by the server, so pick
+  // them up after sign-in
+  useEffect(() => {
+    if (!userAddress) {
+      return;
+    }
+    orderService.listOrders()
+      .then(applyOrderUpdates)
+      .catch(error => console.error('Failed to check orders for updates:', error));
+  }, [userAddress, applyOrderUpdates]);
+
+  /**
+   * Stop polling the tracked payment; it stays pending and can be resumed
+   */
+  const cancelPaymentTracking = () => {
+    trackingController.current?.abort();
+  };
+
+  const spendPermissionService = React.useMemo(() => {
+    if (provider && user) {
+      const service = new SpendPermissionService(provider as any, network);
+      service.setUserAddress(user.address);
+      return service;
     }
     return null;
-  }, [sdk, provider, walletClient]);
+  }, [provider, user, network]);
 
-  const requestSpendPermission = async (): Promise<boolean> => {
-    if (!sdk || !provider || !user) {
-      console.error('SDK, provider, or user not available for spend permission request');
+  /**
+   * Look up the user's onchain spend permissions so a permission granted
+   * in an earlier visit is picked up without asking again
+   */
+  const refreshSpendPermission = useCallback(async (): Promise<void> => {
+    if (!spendPermissionService) {
+      setSpendPermissions([]);
+      return;
+    }
+
+    setIsCheckingPermission(true);
+    try {
+      const permissions = await spendPermissionService.listPermissions();
+      setSpendPermissions(permissions);
+    } finally {
+      setIsCheckingPermission(false);
+    }
+  }, [spendPermissionService]);
+
+  // Discover existing permissions on mount and after sign-in
+  useEffect(() => {
+    refreshSpendPermission();
+  }, [refreshSpendPermission]);
+
+  const requestSpendPermission = async (options: SpendPermissionOptions): Promise<boolean> => {
+    if (!spendPermissionService) {
+      console.error('Provider or user not available for spend permission request');
       return false;
     }
 
@@ -60,23 +257,17 @@ export function PaymentProvider({ children }: PaymentProviderProps) {
 
     try {
       console.log('Requesting spend permission...');
-      
-      // Import the spend permission utilities
-      const { requestSpendPermission } = await import('@base-org/account/spend-permission');
-      
-      // Request spend permission for $20 USDC daily limit
-      const permission = await requestSpendPermission({
-        account: user.address,
-        spender: '0x742d35Cc6634C0532925a3b8D0C0E1c4C5f7f8f9', // Your app's spender address
-        token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base Mainnet
-        chainId: 8453, // Base Mainnet
-        allowance: BigInt(20_000_000), // $20 USDC (6 decimals)
-        periodInDays: 1, // Daily reset
-        provider: provider as any, // Type assertion for provider compatibility
-      });
+
+      // Request spend permission for the allowance and period the shopper chose
+      const permission = await spendPermissionService.requestPermission(options);
 
       console.log('✅ Spend permission granted:', permission);
-      setHasSpendPermission(true);
+      const details = await spendPermissionService.getPermissionDetails(permission);
+      // The permission indexer can lag behind a fresh grant
+      setSpendPermissions(current => [
+        details,
+        ...current.filter(existing => existing.permission.permissionHash !== permission.permissionHash),
+      ]);
       return true;
     } catch (error: unknown) {
       console.error('❌ Failed to request spend permission:', error);
@@ -86,7 +277,137 @@ export function PaymentProvider({ children }: PaymentProviderProps) {
     }
   };
 
-  const processPayment = async (amount: number, recipientAddress: string): Promise<PaymentResult> => {
+  /**
+   * Ask the user for a spend permission that pays for one subscription plan
+   */
+  const requestSubscriptionPermission = async (plan: SubscriptionPlan): Promise<SpendPermission> => {
+    if (!spendPermissionService) {
+      throw new Error('Provider or user not available');
+    }
+
+    const permission = await spendPermissionService.requestSubscriptionPermission(plan);
+    const details = await spendPermissionService.getPermissionDetails(permission);
+    setSpendPermissions(current => [
+      details,
+      ...current.filter(existing => existing.permission.permissionHash !== permission.permissionHash),
+    ]);
+    return permission;
+  };
+
+  const revokeSpendPermission = async (details: SpendPermissionDetails): Promise<{ success: boolean; error?: string }> => {
+    if (!spendPermissionService) {
+      return { success: false, error: 'Provider or user not available' };
+    }
+
+    setRevokingPermissionHash(details.permission.permissionHash ?? null);
+    try {
+      const result = await spendPermissionService.revokePermission(details.permission);
+      if (result.success) {
+        // Drop it right away; the refresh below confirms the onchain state
+        setSpendPermissions(current => current.map(existing =>
+          existing.permission.permissionHash === details.permission.permissionHash
+            ? { ...existing, state: 'revoked', isActive: false }
+            : existing
+        ));
+        await refreshSpendPermission();
+      }
+      return result;
+    } finally {
+      setRevokingPermissionHash(null);
+    }
+  };
+
+  // Auto-spend settings are kept in localStorage, read once on the client
+  useEffect(() => {
+    setAutoSpendConfig(autoSpendService.getConfig());
+  }, []);
+
+  const updateAutoSpendConfig = (config: AutoSpendConfig) => {
+    autoSpendService.setConfig(config);
+    setAutoSpendConfig(config);
+  };
+
+  /**
+   * Whether auto-spend lets the Orders sub-account pay this amount;
+   * its USDC balance is checked separately at checkout
+   */
+  const canPayFromOrdersSubAccount = (amount: Money): boolean =>
+    !!ordersSubAccount &&
+    autoSpendConfig?.subAccountId.toLowerCase() === ordersSubAccount.address.toLowerCase() &&
+    autoSpendService.canAutoSpend(amount, ordersSubAccount);
+
+  const ordersSubAccountAddress = ordersSubAccount?.address;
+  const refreshOrdersSubAccountBalance = useCallback(async (): Promise<void> => {
+    if (!paymentService || !userAddress || !ordersSubAccountAddress) {
+      setOrdersSubAccountBalance(null);
+      return;
+    }
+
+    try {
+      setOrdersSubAccountBalance(await paymentService.getUSDCBalance(ordersSubAccountAddress));
+    } catch (error) {
+      console.error('Failed to get sub-account balance:', error);
+    }
+  }, [paymentService, userAddress, ordersSubAccountAddress]);
+
+  useEffect(() => {
+    refreshOrdersSubAccountBalance();
+  }, [refreshOrdersSubAccountBalance]);
+
+  /**
+   * Top the Orders sub-account up to its target balance from the
+   * universal account; the user approves the transfer
+   */
+  const fundOrdersSubAccount = async (): Promise<PaymentResult> => {
+    if (!paymentService || !user || !ordersSubAccount) {
+      return { success: false, error: 'Create the Orders sub-account first' };
+    }
+
+    setIsFundingSubAccount(true);
+    try {
+      const balance = await paymentService.getUSDCBalance(ordersSubAccount.address);
+      const shortfall = ordersSubAccount.targetBalance - balance;
+      if (shortfall <= ZERO_MONEY) {
+        return { success: false, error: `Balance is already at the ${formatUSDC(ordersSubAccount.targetBalance)} target` };
+      }
+      return await paymentService.fundSubAccount(user.address, ordersSubAccount.address, shortfall);
+    } finally {
+      setIsFundingSubAccount(false);
+      refreshOrdersSubAccountBalance();
+    }
+  };
+
+  /**
+   * Pay from a sub-account with a `wallet_sendCalls` the SDK signs itself
+   */
+  const processSubAccountPayment = async (paymentRequest: PaymentRequest, subAccount: SubAccount): Promise<PaymentResult> => {
+    const result = await autoSpendService.processAutoSpend(
+      paymentRequest.amount,
+      paymentRequest.recipientAddress,
+      subAccount,
+      paymentService,
+      paymentRequest.orderId
+    );
+    return {
+      success: result.success,
+      callsId: result.callsId,
+      transactionHash: result.transactionHash,
+      pending: result.pending,
+      error: result.error,
+      payer: paymentRequest.userAddress,
+      paidFrom: subAccount.address,
+      recipient: paymentRequest.recipientAddress,
+      amount: paymentRequest.amount,
+    };
+  };
+
+  const processPayment = async (
+    amount: Money,
+    recipientAddress: string,
+    lines?: OrderLineInput[],
+    promotionCode?: string,
+    fromOrdersSubAccount = false
+  ): Promise<PaymentResult> => {
     if (!paymentService) {
       return {
         success: false,
@@ -101,25 +422,72 @@ export function PaymentProvider({ children }: PaymentProviderProps) {
       };
     }
 
-    if (!hasSpendPermission) {
-      return {
-        success: false,
-        error: 'Spend permission not granted. Please set spend permissions first.',
-      };
-    }
-
     setIsProcessing(true);
     setLastPaymentResult(null);
 
     try {
+      // Record the purchase as a pending order first; the server prices it
+      // and applies any promotion code
+      const order = lines && lines.length > 0 ? await orderService.createOrder(lines, promotionCode) : null;
+      const orderAmount = order ? order.amount : amount;
+
       const paymentRequest: PaymentRequest = {
-        amount,
+        amount: orderAmount,
         recipientAddress,
         userAddress: user.address,
+        orderId: order?.id,
+        payerInfo: order?.payerInfoRequests,
+        payouts: order?.payouts,
       };
 
-      const result = await paymentService.processPayment(paymentRequest);
+      // Pay from the Orders sub-account when asked and auto-spend allows it,
+      // else charge through the spend permission when it covers the amount,
+      // otherwise fall back to a Base Pay payment the user approves.
+      // Only Base Pay can collect payer details such as a shipping address.
+      // Split orders pay every recipient directly in one batch instead.
+      const isSplit = !!order?.payouts;
+      const needsPayerInfo = requiresPayerInfo(order?.payerInfoRequests);
+      const subAccount = fromOrdersSubAccount && !isSplit && !needsPayerInfo &&
+        canPayFromOrdersSubAccount(orderAmount) ? ordersSubAccount : null;
+      const paidFromSubAccount = !!subAccount &&
+        (await paymentService.getUSDCBalance(subAccount.address)) >= orderAmount;
+      if (subAccount && !paidFromSubAccount) {
+        console.log('ℹ️ Orders sub-account balance too low, falling back to the Base Account');
+      }
+      const coveredByPermission = !isSplit && !paidFromSubAccount && !!spendPermission && spendPermission.isActive &&
+        spendPermission.remainingSpend >= orderAmount && !needsPayerInfo;
+
+      const paymentResult = isSplit
+        ? await paymentService.processSplitPayment(paymentRequest, startTracking())
+        : paidFromSubAccount
+          ? await processSubAccountPayment(paymentRequest, subAccount)
+          : coveredByPermission
+            ? await paymentService.processSpendPermissionPayment(paymentRequest, spendPermission.permission)
+            : await paymentService.processPayment(paymentRequest, startTracking());
+      const result: PaymentResult = { ...paymentResult, orderId: order?.id };
+
+      // Spend permission charges finalise the order server-side
+      if (order && !coveredByPermission) {
+        await orderService.recordPaymentResult(order.id, result);
+      }
+
       setLastPaymentResult(result);
+      setPendingPayment(result.pending ? paymentService.getPendingPayment(user.address) : null);
+
+      // Remaining allowance changes with each confirmed payment; one from the
+      // sub-account that is still in flight counts once its order is paid
+      if (order && result.pending && result.paidFrom) {
+        autoSpendService.addPendingSpend({ orderId: order.id, subAccountId: result.paidFrom, amount: orderAmount });
+      }
+      if (result.success) {
+        spendLimitService.recordSpend(orderAmount, result.paidFrom);
+        if (result.paidFrom) {
+          recordSubAccountSpend(result.paidFrom, orderAmount);
+          refreshOrdersSubAccountBalance();
+        } else {
+          refreshSpendPermission();
+        }
+      }
       return result;
     } catch (error: unknown) {
       const errorResult: PaymentResult = {
@@ -145,16 +513,7 @@ export function PaymentProvider({ children }: PaymentProviderProps) {
 
     try {
       const balance = await paymentService.getUSDCBalance(address);
-      const divisor = BigInt(10 ** 6); // USDC has 6 decimals
-      const wholePart = balance / divisor;
-      const fractionalPart = balance % divisor;
-      
-      if (fractionalPart === BigInt(0)) {
-        return wholePart.toString();
-      }
-      
-      const fractionalStr = fractionalPart.toString().padStart(6, '0');
-      return `${wholePart}.${fractionalStr}`;
+      return formatMoney(balance);
     } catch (error) {
       console.error('Failed to get USDC balance:', error);
       return '0.00';
@@ -168,11 +527,29 @@ export function PaymentProvider({ children }: PaymentProviderProps) {
     lastPaymentResult,
     processPayment,
     clearPaymentResult,
+    pendingPayment,
+    resumePendingPayment,
+    cancelPaymentTracking,
     getUSDCBalance,
     isPaymentReady,
-    hasSpendPermission,
+    hasSpendPermission: !!spendPermission,
+    spendPermission,
+    spendPermissions,
+    isCheckingPermission,
+    refreshSpendPermission,
     requestSpendPermission,
     isRequestingPermission,
+    revokeSpendPermission,
+    revokingPermissionHash,
+    requestSubscriptionPermission,
+    applyOrderUpdates,
+    autoSpendConfig,
+    updateAutoSpendConfig,
+    canPayFromOrdersSubAccount,
+    ordersSubAccountBalance,
+    refreshOrdersSubAccountBalance,
+    fundOrdersSubAccount,
+    isFundingSubAccount,
   };
 
   return (
@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * Sub-Account Context
+ *
+ * Manages the Base Account sub-accounts this app owns for the signed-in
+ * universal account. This context handles:
+ * - Listing sub-accounts through `wallet_getSubAccounts` for this domain
+ * - Creating a sub-account through `wallet_addSubAccount`; the SDK
+ *   generates and keeps the signer key, so the sub-account sends calls
+ *   without a wallet popup
+ * - A name, active flag, daily spend limit and funding target per
+ *   sub-account, stored locally because the wallet only knows the address
+ * - Today's spend per sub-account, reset at the start of each day
+ * - The "Orders" sub-account checkout pays from without a popup
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import type { ProviderInterface } from '@base-org/account';
+import { useBaseAccount } from './BaseAccountContext';
+import { Money, ZERO_MONEY, isMoney, parseMoney } from '../lib/money';
+import { parseJson, stringifyJson } from '../lib/json';
+import { appConfig } from '../config/app';
+
+export interface SubAccount {
+  name: string;
+  address: string;
+  isActive: boolean;
+  dailySpendLimit: Money;
+  totalSpentToday: Money;
+  targetBalance: Money; // Balance a top-up from the universal account brings it to
+}
+
+export type SubAccountSettings = Pick<SubAccount, 'name' | 'isActive' | 'dailySpendLimit' | 'targetBalance'>;
+
+// Name of the sub-account checkout pays from
+export const ORDERS_SUB_ACCOUNT_NAME = 'Orders';
+
+// What is stored per sub-account, keyed by lowercased address
+interface StoredSubAccount extends SubAccountSettings {
+  spentToday: Money;
+  spentDate: string; // Date.toDateString() of the day spentToday covers
+}
+
+interface SubAccountContextType {
+  subAccounts: SubAccount[];
+  ordersSubAccount: SubAccount | null;
+  isLoadingSubAccounts: boolean;
+  isCreatingSubAccount: boolean;
+  subAccountError: string | null;
+  refreshSubAccounts: () => Promise<void>;
+  createSubAccount: (settings: Pick<SubAccountSettings, 'name' | 'dailySpendLimit'>) => Promise<SubAccount>;
+  updateSubAccount: (address: string, settings: Partial<SubAccountSettings>) => void;
+  recordSubAccountSpend: (address: string, amount: Money) => void;
+  getSubAccountByName: (name: string) => SubAccount | undefined;
+}
+
+const SubAccountContext = createContext<SubAccountContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'subAccountSettings';
+const DEFAULT_DAILY_SPEND_LIMIT = parseMoney('10');
+
+function loadStored(): Record<string, StoredSubAccount> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return {};
+  }
+
+  try {
+    const entries = parseJson<Record<string, StoredSubAccount>>(stored);
+    // Drop entries that do not hold Money amounts
+    return Object.fromEntries(
+      Object.entries(entries)
+        .filter(([, entry]) => isMoney(entry.dailySpendLimit) && isMoney(entry.spentToday))
+        // Settings saved before funding targets existed take the default
+        .map(([address, entry]) => [
+          address,
+          { ...entry, targetBalance: isMoney(entry.targetBalance) ? entry.targetBalance : appConfig.subAccountTargetBalance },
+        ])
+    );
+  } catch (error) {
+    console.error('Failed to load sub-account settings:', error);
+    return {};
+  }
+}
+
+function saveStored(stored: Record<string, StoredSubAccount>): void {
+  localStorage.setItem(STORAGE_KEY, stringifyJson(stored));
+}
+
+function toSubAccount(address: string, entry: StoredSubAccount | undefined, index: number): SubAccount {
+  const today = new Date().toDateString();
+  return {
+    address,
+    name: entry?.name ?? `Sub-account ${index + 1}`,
+    isActive: entry?.isActive ?? true,
+    dailySpendLimit: entry?.dailySpendLimit ?? DEFAULT_DAILY_SPEND_LIMIT,
+    totalSpentToday: entry && entry.spentDate === today ? entry.spentToday : ZERO_MONEY,
+    targetBalance: entry?.targetBalance ?? appConfig.subAccountTargetBalance,
+  };
+}
+
+interface SubAccountProviderProps {
+  children: ReactNode;
+}
+
+export function SubAccountProvider({ children }: SubAccountProviderProps) {
+  const { provider, account, isInitialized } = useBaseAccount();
+  const [addresses, setAddresses] = useState<string[]>([]);
+  const [stored, setStored] = useState<Record<string, StoredSubAccount>>({});
+  const [isLoadingSubAccounts, setIsLoadingSubAccounts] = useState(false);
+  const [isCreatingSubAccount, setIsCreatingSubAccount] = useState(false);
+  const [subAccountError, setSubAccountError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStored(loadStored());
+  }, []);
+
+  const updateStored = useCallback((address: string, update: (entry: StoredSubAccount) => StoredSubAccount) => {
+    setStored(current => {
+      const key = address.toLowerCase();
+      const index = addresses.findIndex(candidate => candidate.toLowerCase() === key);
+      const { name, isActive, dailySpendLimit, targetBalance } = toSubAccount(address, undefined, Math.max(index, 0));
+      const entry = current[key] ?? {
+        name,
+        isActive,
+        dailySpendLimit,
+        targetBalance,
+        spentToday: ZERO_MONEY,
+        spentDate: new Date().toDateString(),
+      };
+      const next = { ...current, [key]: update(entry) };
+      saveStored(next);
+      return next;
+    });
+  }, [addresses]);
+
+  /**
+   * Load the sub-accounts the wallet holds for this app's domain
+   */
+  const refreshSubAccounts = useCallback(async () => {
+    if (!provider || !account) {
+      setAddresses([]);
+      return;
+    }
+
+    setIsLoadingSubAccounts(true);
+    setSubAccountError(null);
+    try {
+      const response = await (provider as ProviderInterface).request({
+        method: 'wallet_getSubAccounts',
+        params: [{ account, domain: window.location.origin }],
+      }) as { subAccounts?: { address: string }[] };
+
+      setAddresses((response.subAccounts ?? []).map(subAccount => subAccount.address));
+      console.log('✅ Loaded sub-accounts:', response.subAccounts?.length ?? 0);
+    } catch (error) {
+      console.error('❌ Failed to load sub-accounts:', error);
+      setSubAccountError(error instanceof Error ? error.message : 'Failed to load sub-accounts');
+    } finally {
+      setIsLoadingSubAccounts(false);
+    }
+  }, [provider, account]);
+
+  useEffect(() => {
+    if (isInitialized) {
+      refreshSubAccounts();
+    }
+  }, [isInitialized, refreshSubAccounts]);
+
+  /**
+   * Create a sub-account for this app; when one already exists for the
+   * domain the wallet returns it instead, and it is renamed
+   */
+  const createSubAccount = async (settings: Pick<SubAccountSettings, 'name' | 'dailySpendLimit'>): Promise<SubAccount> => {
+    if (!provider || !account) {
+      throw new Error('Sign in before creating a sub-account');
+    }
+
+    setIsCreatingSubAccount(true);
+    setSubAccountError(null);
+    try {
+      const response = await (provider as ProviderInterface).request({
+        method: 'wallet_addSubAccount',
+        // With no keys the SDK creates the signer key itself
+        params: [{ version: '1', account: { type: 'create', keys: [] } }],
+      }) as { address: string };
+
+      // An existing sub-account keeps today's spend
+      const key = response.address.toLowerCase();
+      const previous: StoredSubAccount | undefined = stored[key];
+      const entry: StoredSubAccount = {
+        ...settings,
+        isActive: true,
+        targetBalance: previous?.targetBalance ?? appConfig.subAccountTargetBalance,
+        spentToday: previous?.spentToday ?? ZERO_MONEY,
+        spentDate: previous?.spentDate ?? new Date().toDateString(),
+      };
+      setStored(current => {
+        const next = { ...current, [key]: entry };
+        saveStored(next);
+        return next;
+      });
+      setAddresses(current =>
+        current.some(address => address.toLowerCase() === key) ? current : [...current, response.address]
+      );
+
+      console.log('✅ Sub-account ready:', settings.name, response.address);
+      return toSubAccount(response.address, entry, 0);
+    } catch (error) {
+      console.error('❌ Failed to create sub-account:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create sub-account';
+      setSubAccountError(message);
+      throw new Error(message);
+    } finally {
+      setIsCreatingSubAccount(false);
+    }
+  };
+
+  const updateSubAccount = (address: string, settings: Partial<SubAccountSettings>) => {
+    updateStored(address, entry => ({ ...entry, ...settings }));
+  };
+
+  /**
+   * Add a payment made from a sub-account to its spend for today
+   */
+  const recordSubAccountSpend = useCallback((address: string, amount: Money) => {
+    const today = new Date().toDateString();
+    updateStored(address, entry => ({
+      ...entry,
+      spentToday: (entry.spentDate === today ? entry.spentToday : ZERO_MONEY) + amount,
+      spentDate: today,
+    }));
+  }, [updateStored]);
+
+  const subAccounts = addresses.map((address, index) => toSubAccount(address, stored[address.toLowerCase()], index));
+
+  const getSubAccountByName = (name: string) => subAccounts.find(subAccount => subAccount.name === name);
+
+  const ordersSubAccount = getSubAccountByName(ORDERS_SUB_ACCOUNT_NAME) ?? null;
+
+  const value: SubAccountContextType = {
+    subAccounts,
+    ordersSubAccount,
+    isLoadingSubAccounts,
+    isCreatingSubAccount,
+    subAccountError,
+    refreshSubAccounts,
+    createSubAccount,
+    updateSubAccount,
+    recordSubAccountSpend,
+    getSubAccountByName,
+  };
+
+  return (
+    <SubAccountContext.Provider value={value}>
+      {children}
+    </SubAccountContext.Provider>
+  );
+}
+
+export function useSubAccount() {
+  const context = useContext(SubAccountContext);
+  if (context === undefined) {
+    throw new Error('useSubAccount must be used within a SubAccountProvider');
+  }
+  return context;
+}
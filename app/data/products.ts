@@ -1,14 +1,15 @@
 import { Product } from '../types/product';
+import { parseMoney } from '../lib/money';
 
 export const mockProducts: Product[] = [
   {
     id: '1',
     name: 'Base Account Pro',
     description: 'Premium Base Account with advanced features including sub-accounts, spend permissions, and gasless transactions.',
-    price: 0.1, // $0.1 USDC
+    price: parseMoney('0.1'), // $0.1 USDC
     image: '/next.svg', // Using Next.js logo as placeholder
     category: 'Software',
-    inStock: true,
+    stock: 50,
     features: [
       'Unlimited sub-accounts',
       'Advanced spend permissions',
@@ -21,16 +22,95 @@ export const mockProducts: Product[] = [
     id: '2',
     name: 'Base Account Starter',
     description: 'Essential Base Account features for getting started with Web3 payments and authentication.',
-    price: 0.1, // $0.1 USDC
+    price: parseMoney('0.1'), // $0.1 USDC
     image: '/next.svg',
     category: 'Software',
-    inStock: true,
+    stock: 100,
     features: [
       'Basic authentication',
       'USDC payments',
       'Transaction history',
       'Email support'
     ]
+  },
+  {
+    id: '3',
+    name: 'Developer Toolkit',
+    description: 'Starter templates and SDK helpers for building onchain apps on Base.',
+    price: parseMoney('0.25'), // $0.25 USDC
+    image: '/window.svg',
+    category: 'Developer Tools',
+    stock: 25,
+    features: [
+      'Next.js starter templates',
+      'Smart wallet helpers',
+      'Testnet faucet access',
+      'Printed quick-start guide, shipped to you'
+    ],
+    // Ships a printed guide, so it needs a delivery address
+    payerInfo: [
+      { type: 'email' },
+      { type: 'name' },
+      { type: 'physicalAddress' },
+      { type: 'phoneNumber', optional: true }
+    ]
+  },
+  {
+    id: '4',
+    name: 'Onchain Analytics',
+    description: 'Dashboards for tracking payments, subscriptions and spend permissions across your apps.',
+    price: parseMoney('0.5'), // $0.5 USDC
+    image: '/globe.svg',
+    category: 'Services',
+    stock: 10,
+    features: [
+      'Payment dashboards',
+      'Subscription metrics',
+      'CSV exports',
+      'Webhook alerts'
+    ],
+    payerInfo: [{ type: 'email' }]
+  },
+  {
+    id: '5',
+    name: 'Integration Workshop',
+    description: 'Live session walking your team through a Base Account integration end to end.',
+    price: parseMoney('1'), // $1 USDC
+    image: '/file.svg',
+    category: 'Services',
+    stock: 0,
+    features: [
+      'Two-hour live session',
+      'Architecture review',
+      'Q&A with engineers',
+      'Recording included'
+    ],
+    payerInfo: [
+      { type: 'email' },
+      { type: 'name' },
+      { type: 'phoneNumber', optional: true }
+    ]
+  },
+  {
+    id: '6',
+    name: 'Community Theme Pack',
+    description: 'Checkout and sign-in themes made by an independent designer, sold through the marketplace.',
+    price: parseMoney('0.2'), // $0.2 USDC
+    image: '/vercel.svg',
+    category: 'Marketplace',
+    stock: 40,
+    features: [
+      'Six checkout themes',
+      'Light and dark variants',
+      'Figma source files',
+      'Free updates'
+    ],
+    // Paid straight to the designer, with a platform fee and a referral cut
+    payoutSplit: [
+      { role: 'seller', recipient: '0x5e11E4a8d3f1f0B6e3C2D9A4B7c8e1f2a3b4c5d6', basisPoints: 8500 },
+      { role: 'platform', basisPoints: 1000 },
+      { role: 'affiliate', recipient: '0xaff11a7e9c2b4d6e8F0A1b3C5D7E9f1A2b4C6D8e', basisPoints: 500 }
+    ]
   }
 ];
 
@@ -41,3 +121,27 @@ export const getProductById = (id: string): Product | undefined => {
 export const getFeaturedProduct = (): Product => {
   return mockProducts[0]; // Return the first product as featured
 };
+
+/**
+ * All product categories, in catalog order
+ */
+export const getCategories = (): string[] => {
+  return Array.from(new Set(mockProducts.map(product => product.category)));
+};
+
+/**
+ * Products matching a category (all when omitted) and a case-insensitive
+ * search over name, description and features
+ */
+export const searchProducts = (query: string, category?: string): Product[] => {
+  const term = query.trim().toLowerCase();
+  return mockProducts.filter(product => {
+    if (category && product.category !== category) {
+      return false;
+    }
+    if (!term) {
+      return true;
+    }
+    return [product.name, product.description, ...product.features].some(text => text.toLowerCase().includes(term));
+  });
+};
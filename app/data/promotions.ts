@@ -0,0 +1,45 @@
+import { Promotion } from '../types/promotion';
+import { parseMoney } from '../lib/money';
+
+export const promotions: Promotion[] = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order',
+    type: 'percent',
+    scope: 'cart',
+    percentOff: 10,
+  },
+  {
+    code: 'PRO5',
+    description: '$0.05 off Base Account Pro',
+    type: 'fixed',
+    scope: 'product',
+    amountOff: parseMoney('0.05'),
+    productIds: ['1'],
+    usageLimit: 100,
+  },
+  {
+    code: 'TOOLS25',
+    description: '25% off developer tools and analytics',
+    type: 'percent',
+    scope: 'product',
+    percentOff: 25,
+    productIds: ['3', '4'],
+    startsAt: '2026-01-01T00:00:00Z',
+    endsAt: '2026-12-31T23:59:59Z',
+  },
+  {
+    code: 'SAVE1',
+    description: '$1 off orders over $2',
+    type: 'fixed',
+    scope: 'cart',
+    amountOff: parseMoney('1'),
+    minSubtotal: parseMoney('2'),
+    usageLimit: 50,
+  },
+];
+
+export const getPromotionByCode = (code: string): Promotion | undefined => {
+  const normalized = code.trim().toUpperCase();
+  return promotions.find(promotion => promotion.code === normalized);
+};
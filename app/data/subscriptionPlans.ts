@@ -0,0 +1,34 @@
+import { SubscriptionPlan } from '../types/subscription';
+import { parseMoney } from '../lib/money';
+
+export const subscriptionPlans: SubscriptionPlan[] = [
+  {
+    id: 'builder-weekly',
+    name: 'Builder Weekly',
+    description: 'Fresh starter templates and SDK recipes every week.',
+    price: parseMoney('0.5'), // $0.5 USDC per week
+    intervalDays: 7,
+    features: [
+      'New template every week',
+      'SDK recipes',
+      'Community channel access'
+    ]
+  },
+  {
+    id: 'analytics-monthly',
+    name: 'Analytics Monthly',
+    description: 'Onchain Analytics dashboards, billed monthly.',
+    price: parseMoney('1.5'), // $1.5 USDC per 30 days
+    intervalDays: 30,
+    features: [
+      'Payment and subscription dashboards',
+      'CSV exports',
+      'Webhook alerts',
+      'Priority support'
+    ]
+  }
+];
+
+export const getSubscriptionPlanById = (id: string): SubscriptionPlan | undefined => {
+  return subscriptionPlans.find(plan => plan.id === id);
+};
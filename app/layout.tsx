@@ -4,6 +4,8 @@ import "./globals.css";
 import { BaseAccountProvider } from "./contexts/BaseAccountContext";
 import { AuthProvider } from "./contexts/AuthContext";
 import { PaymentProvider } from "./contexts/PaymentContext";
+import { SubAccountProvider } from "./contexts/SubAccountContext";
+import { CartProvider } from "./contexts/CartContext";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -32,9 +34,13 @@ export default function RootLayout({
       >
             <BaseAccountProvider>
               <AuthProvider>
-                <PaymentProvider>
-                  {children}
-                </PaymentProvider>
+                <SubAccountProvider>
+                  <PaymentProvider>
+                    <CartProvider>
+                      {children}
+                    </CartProvider>
+                  </PaymentProvider>
+                </SubAccountProvider>
               </AuthProvider>
             </BaseAccountProvider>
       </body>
@@ -0,0 +1,54 @@
+/**
+ * Background Jobs
+ *
+ * Runs the server's periodic work on a timer in the Node.js server process,
+ * started once from `instrumentation.ts`:
+ * - Confirming watched Base Pay payments (`paymentWatcher.ts`)
+ * - Delivering and retrying merchant webhooks (`webhooks.ts`)
+ * - Charging subscriptions each billing period (`subscriptionBilling.ts`)
+ * - Confirming refunds sent without a receipt (`refunds.ts`)
+ * Serverless deployments have no long-lived process; there the same work
+ * has to be triggered by an external scheduler instead.
+ */
+
+import { paymentWatcher } from './paymentWatcher';
+import { webhookDispatcher } from './webhooks';
+import { subscriptionBilling } from './subscriptionBilling';
+import { reconcilePendingRefunds } from './refunds';
+
+const JOB_INTERVAL_MS = 5 * 1000;
+
+// Kept on globalThis so hot reloads in development don't start a second timer
+const globalJobs = globalThis as typeof globalThis & {
+  __backgroundJobsTimer?: ReturnType<typeof setInterval>;
+};
+
+let isRunning = false;
+
+async function runJobs() {
+  // Skip a tick rather than overlap a slow one
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    await paymentWatcher.checkDue();
+    await webhookDispatcher.deliverDue();
+    await subscriptionBilling.chargeDue();
+    await reconcilePendingRefunds();
+  } catch (error) {
+    console.error('❌ Background jobs failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startBackgroundJobs() {
+  if (globalJobs.__backgroundJobsTimer) {
+    return;
+  }
+
+  globalJobs.__backgroundJobsTimer = setInterval(runJobs, JOB_INTERVAL_MS);
+  // Don't keep the process alive just for the timer
+  globalJobs.__backgroundJobsTimer.unref?.();
+  console.log('⏱️ Background jobs started');
+}
@@ -0,0 +1,224 @@
+/**
+ * Inventory Repository
+ *
+ * Tracks stock per product in a `KeyValueStore` (see `storage.ts`) and
+ * holds units for orders while they are being paid for:
+ * - `reserve` holds units when checkout starts, failing if any line is short
+ * - `release` returns held units when the payment fails
+ * - `commit` takes held units out of stock once the payment succeeds
+ * Reservations expire after `RESERVATION_TTL_MS` so abandoned or timed out
+ * checkouts stop holding stock without any cleanup job. Once a payment is
+ * registered, `extend` keeps the units held for as long as it can still
+ * confirm.
+ */
+
+import { createStore, KeyValueStore } from './storage';
+import { getProductById, mockProducts } from '../data/products';
+import { OrderLineInput } from '../types/order';
+
+// How long units stay held for an unpaid order
+export const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+export type ReservationStatus = 'held' | 'committed' | 'released';
+
+export interface StockLevel {
+  productId: string;
+  onHand: number; // Units not yet sold; held units are still counted here
+}
+
+export interface Reservation {
+  orderId: string;
+  lines: OrderLineInput[];
+  status: ReservationStatus;
+  expiresAt: number;
+  updatedAt: number;
+}
+
+export type ReserveResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; error: string };
+
+export type CommitResult =
+  | { success: true }
+  | { success: false; error: string };
+
+export class InventoryRepository {
+  private levels: KeyValueStore<StockLevel>;
+  private reservations: KeyValueStore<Reservation>;
+  // Serializes changes so two checkouts can't both take the last unit
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(levels: KeyValueStore<StockLevel>, reservations: KeyValueStore<Reservation>) {
+    this.levels = levels;
+    this.reservations = reservations;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private isHeld(reservation: Reservation, now = Date.now()): boolean {
+    return reservation.status === 'held' && reservation.expiresAt > now;
+  }
+
+  /**
+   * Units on hand, seeded from the catalog the first time a product is seen
+   */
+  private async getOnHand(productId: string): Promise<number> {
+    const level = await this.levels.get(productId);
+    return level ? level.onHand : getProductById(productId)?.stock ?? 0;
+  }
+
+  private async getHeldUnits(exceptOrderId?: string): Promise<Map<string, number>> {
+    const now = Date.now();
+    const held = new Map<string, number>();
+    for (const [orderId, reservation] of await this.reservations.entries()) {
+      if (orderId === exceptOrderId || !this.isHeld(reservation, now)) continue;
+      for (const line of reservation.lines) {
+        held.set(line.productId, (held.get(line.productId) ?? 0) + line.quantity);
+      }
+    }
+    return held;
+  }
+
+  /**
+   * Units that can still be reserved, for every product in the catalog
+   */
+  async getAvailability(): Promise<Record<string, number>> {
+    const held = await this.getHeldUnits();
+    const availability: Record<string, number> = {};
+    for (const product of mockProducts) {
+      const onHand = await this.getOnHand(product.id);
+      availability[product.id] = Math.max(onHand - (held.get(product.id) ?? 0), 0);
+    }
+    return availability;
+  }
+
+  /**
+   * Why the lines don't fit in the stock not held by other orders, or null
+   * if they do
+   */
+  private async findShortfall(orderId: string, lines: OrderLineInput[]): Promise<string | null> {
+    const held = await this.getHeldUnits(orderId);
+    const requested = new Map<string, number>();
+    for (const line of lines) {
+      requested.set(line.productId, (requested.get(line.productId) ?? 0) + line.quantity);
+    }
+
+    for (const [productId, quantity] of requested) {
+      const available = (await this.getOnHand(productId)) - (held.get(productId) ?? 0);
+      if (quantity > available) {
+        const name = getProductById(productId)?.name ?? productId;
+        return available > 0 ? `Only ${available} of ${name} left in stock` : `${name} is out of stock`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Hold units for an order; nothing is held unless every line fits
+   */
+  reserve(orderId: string, lines: OrderLineInput[]): Promise<ReserveResult> {
+    return this.exclusive(async () => {
+      const shortfall = await this.findShortfall(orderId, lines);
+      if (shortfall) {
+        return { success: false, error: shortfall };
+      }
+
+      const now = Date.now();
+      const reservation: Reservation = {
+        orderId,
+        lines: lines.map(({ productId, quantity }) => ({ productId, quantity })),
+        status: 'held',
+        expiresAt: now + RESERVATION_TTL_MS,
+        updatedAt: now,
+      };
+      await this.reservations.set(orderId, reservation);
+      console.log('📦 Reserved stock for order:', orderId);
+      return { success: true, reservation };
+    });
+  }
+
+  /**
+   * Return an order's held units to stock
+   */
+  release(orderId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const reservation = await this.reservations.get(orderId);
+      if (!reservation || reservation.status !== 'held') {
+        return;
+      }
+
+      await this.reservations.set(orderId, { ...reservation, status: 'released', updatedAt: Date.now() });
+      console.log('📦 Released stock for order:', orderId);
+    });
+  }
+
+  /**
+   * Keep an order's units held until `expiresAt`. A reservation that
+   * already lapsed is held again only if its units are still free.
+   */
+  extend(orderId: string, expiresAt: number): Promise<CommitResult> {
+    return this.exclusive(async () => {
+      const reservation = await this.reservations.get(orderId);
+      if (!reservation || reservation.status === 'committed') {
+        return { success: true };
+      }
+      if (reservation.status === 'released') {
+        return { success: false, error: 'Stock for this order was released' };
+      }
+
+      if (!this.isHeld(reservation)) {
+        const shortfall = await this.findShortfall(orderId, reservation.lines);
+        if (shortfall) {
+          return { success: false, error: shortfall };
+        }
+      }
+
+      const updated = { ...reservation, expiresAt: Math.max(reservation.expiresAt, expiresAt), updatedAt: Date.now() };
+      await this.reservations.set(orderId, updated);
+      console.log('📦 Extended stock hold for order:', orderId);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Take an order's units out of stock once it is paid. If its reservation
+   * lapsed and the units went to other orders meanwhile, nothing is taken
+   * and the shortfall is returned, so the order can be refunded instead of
+   * selling the same units twice.
+   */
+  commit(orderId: string): Promise<CommitResult> {
+    return this.exclusive(async () => {
+      const reservation = await this.reservations.get(orderId);
+      if (!reservation || reservation.status === 'committed') {
+        return { success: true };
+      }
+
+      if (!this.isHeld(reservation)) {
+        const shortfall = await this.findShortfall(orderId, reservation.lines);
+        if (shortfall) {
+          await this.reservations.set(orderId, { ...reservation, status: 'released', updatedAt: Date.now() });
+          console.warn(`⚠️ Order ${orderId} was paid after its stock ran out: ${shortfall}`);
+          return { success: false, error: shortfall };
+        }
+      }
+
+      for (const line of reservation.lines) {
+        const onHand = await this.getOnHand(line.productId);
+        await this.levels.set(line.productId, { productId: line.productId, onHand: onHand - line.quantity });
+      }
+
+      await this.reservations.set(orderId, { ...reservation, status: 'committed', updatedAt: Date.now() });
+      console.log('📦 Committed stock for order:', orderId);
+      return { success: true };
+    });
+  }
+}
+
+export const inventoryRepository = new InventoryRepository(
+  createStore<StockLevel>('stock-levels'),
+  createStore<Reservation>('stock-reservations')
+);
@@ -0,0 +1,40 @@
+/**
+ * BigInt-safe JSON
+ *
+ * JSON has no bigint, so bigint values (Money, block numbers) are written
+ * as `{ "$bigint": "<digits>" }` and restored on parse. Used for persisted
+ * records, API bodies that carry amounts, and localStorage.
+ */
+
+export function stringifyJson(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    (_key, item) => (typeof item === 'bigint' ? { $bigint: item.toString() } : item),
+    space
+  );
+}
+
+export function parseJson<T>(text: string): T {
+  return JSON.parse(text, (_key, item) => {
+    if (item && typeof item === 'object' && Object.keys(item).length === 1 && typeof item.$bigint === 'string') {
+      return BigInt(item.$bigint);
+    }
+    return item;
+  });
+}
+
+/**
+ * `NextResponse.json` equivalent for route bodies that contain bigint values
+ */
+export function jsonResponse(body: unknown, init?: ResponseInit): Response {
+  const headers = new Headers(init?.headers);
+  headers.set('Content-Type', 'application/json');
+  return new Response(stringifyJson(body), { ...init, headers });
+}
+
+/**
+ * Read a response body written by `jsonResponse`
+ */
+export async function readJson<T>(response: Response): Promise<T> {
+  return parseJson<T>(await response.text());
+}
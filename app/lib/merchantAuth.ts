@@ -0,0 +1,22 @@
+/**
+ * Merchant Authorization
+ *
+ * There are no merchant accounts in this app, so merchant-only routes are
+ * protected by the webhook secret the merchant already holds:
+ * `Authorization: Bearer <MERCHANT_WEBHOOK_SECRET>`.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export function isMerchantRequest(request: NextRequest): boolean {
+  const secret = process.env.MERCHANT_WEBHOOK_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header.slice('Bearer '.length));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
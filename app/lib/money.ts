@@ -0,0 +1,76 @@
+/**
+ * Money
+ *
+ * USDC amounts as integer minor units (6 decimals) backed by bigint, so
+ * prices, totals, limits and payments never go through floating point.
+ * Decimal strings such as "0.10" only appear at the edges: parsing
+ * config or user input, display, and the Base Pay `pay()` amount.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+// USDC amount in minor units (1 USDC = 1_000_000)
+export type Money = bigint;
+
+export const USDC_DECIMALS = 6;
+
+export const ZERO_MONEY: Money = BigInt(0);
+
+/**
+ * Parse a decimal USDC amount such as "12.5". Throws on anything that is
+ * not a plain decimal with at most 6 fractional digits.
+ */
+export function parseMoney(value: string): Money {
+  if (!/^-?\d+(\.\d{1,6})?$/.test(value.trim())) {
+    throw new Error(`Invalid USDC amount: ${value}`);
+  }
+  return parseUnits(value.trim(), USDC_DECIMALS);
+}
+
+/**
+ * Full-precision decimal string, e.g. "0.1"; the format `pay()` expects
+ */
+export function toDecimalString(amount: Money): string {
+  return formatUnits(amount, USDC_DECIMALS);
+}
+
+/**
+ * Display format with at least two decimals, e.g. "0.10" or "1.234567"
+ */
+export function formatMoney(amount: Money): string {
+  const [whole, fraction = ''] = toDecimalString(amount).split('.');
+  return `${whole}.${fraction.padEnd(2, '0')}`;
+}
+
+/**
+ * Display format with currency, e.g. "$0.10 USDC"
+ */
+export function formatUSDC(amount: Money): string {
+  return amount < ZERO_MONEY ? `-$${formatMoney(-amount)} USDC` : `$${formatMoney(amount)} USDC`;
+}
+
+export function addMoney(...amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, ZERO_MONEY);
+}
+
+/**
+ * Multiply by a whole quantity
+ */
+export function multiplyMoney(amount: Money, quantity: number): Money {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Quantity must be an integer: ${quantity}`);
+  }
+  return amount * BigInt(quantity);
+}
+
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  return a < b ? a : b;
+}
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'bigint';
+}
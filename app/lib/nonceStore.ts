@@ -0,0 +1,117 @@
+/**
+ * Sign-In Nonce Store
+ *
+ * Issues short-lived, single-use SIWE nonces bound to the browser session
+ * that requested them, and tracks their consumption so a signed message
+ * cannot be replayed.
+ * Records live in a pluggable `KeyValueStore` (see `storage.ts`).
+ */
+
+import { randomBytes } from 'crypto';
+import { generateSiweNonce } from 'viem/siwe';
+import { createStore, KeyValueStore } from './storage';
+
+// Cookie binding an unauthenticated browser session to the nonces it requested
+export const SIGN_IN_COOKIE_NAME = 'base-account-sign-in';
+
+// Nonces must be used within 5 minutes of being issued
+export const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Consumed nonces are kept for a day so replays get a distinct error
+const CONSUMED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface NonceRecord {
+  nonce: string;
+  sessionId: string;
+  issuedAt: number;
+  expiresAt: number;
+  consumedAt?: number;
+}
+
+export type NonceConsumeResult =
+  | { success: true; record: NonceRecord }
+  | { success: false; code: 'not_found' | 'expired' | 'session_mismatch' | 'replayed'; error: string };
+
+export class NonceStore {
+  private store: KeyValueStore<NonceRecord>;
+  // Serializes consumption so the same nonce can't be consumed twice concurrently
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(store: KeyValueStore<NonceRecord>) {
+    this.store = store;
+  }
+
+  /**
+   * Create a random session identifier for the sign-in cookie
+   */
+  static createSessionId(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Issue a new nonce bound to the given session
+   */
+  async issue(sessionId: string): Promise<NonceRecord> {
+    await this.prune();
+
+    const issuedAt = Date.now();
+    const record: NonceRecord = {
+      nonce: generateSiweNonce(),
+      sessionId,
+      issuedAt,
+      expiresAt: issuedAt + NONCE_TTL_MS,
+    };
+
+    await this.store.set(record.nonce, record);
+    return record;
+  }
+
+  /**
+   * Mark a nonce as used; fails if it is unknown, expired, bound to another
+   * session or already consumed
+   */
+  consume(nonce: string, sessionId: string | undefined): Promise<NonceConsumeResult> {
+    const result = this.lock.then(() => this.consumeUnlocked(nonce, sessionId));
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async consumeUnlocked(nonce: string, sessionId: string | undefined): Promise<NonceConsumeResult> {
+    const record = await this.store.get(nonce);
+
+    if (!record) {
+      return { success: false, code: 'not_found', error: 'Unknown nonce' };
+    }
+
+    if (record.consumedAt) {
+      return { success: false, code: 'replayed', error: 'Nonce has already been used' };
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      return { success: false, code: 'expired', error: 'Nonce has expired' };
+    }
+
+    if (record.sessionId !== sessionId) {
+      return { success: false, code: 'session_mismatch', error: 'Nonce was issued to a different session' };
+    }
+
+    const consumed = { ...record, consumedAt: Date.now() };
+    await this.store.set(nonce, consumed);
+    return { success: true, record: consumed };
+  }
+
+  /**
+   * Remove unused nonces past their expiry and consumed nonces past retention
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    for (const [nonce, record] of await this.store.entries()) {
+      const retainUntil = record.consumedAt ? record.consumedAt + CONSUMED_RETENTION_MS : record.expiresAt;
+      if (retainUntil <= now) {
+        await this.store.delete(nonce);
+      }
+    }
+  }
+}
+
+export const nonceStore = new NonceStore(createStore<NonceRecord>('nonces'));
@@ -0,0 +1,195 @@
+/**
+ * Order Repository
+ *
+ * Persists orders in a pluggable `KeyValueStore` (see `storage.ts`).
+ * Orders are created as 'pending' before payment starts and finalised
+ * as 'paid' or 'failed' once the payment outcome is known. Changes to one
+ * order run one at a time, so `updateIf` can move an order between
+ * statuses without another request slipping in between. Attaching a
+ * payment (`attachPayment`) additionally runs one at a time across all
+ * orders, so one payment can never end up on two orders.
+ */
+
+import { randomUUID } from 'crypto';
+import { createStore, KeyValueStore } from './storage';
+import { getProductById } from '../data/products';
+import { addMoney, multiplyMoney, Money } from './money';
+import { Order, OrderLine, OrderLineInput } from '../types/order';
+import { PromotionQuote } from '../types/promotion';
+import { getPayerInfoRequests } from './payerInfo';
+import { getOrderPayouts } from './payouts';
+
+// Largest quantity of a single product in one order
+const MAX_LINE_QUANTITY = 100;
+
+export type PriceLinesResult =
+  | { success: true; lines: OrderLine[]; amount: Money }
+  | { success: false; error: string; attachedTo?: string }; // Order that already has the payment
+
+/**
+ * Price requested lines from the product catalog
+ */
+export function priceOrderLines(inputs: OrderLineInput[]): PriceLinesResult {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return { success: false, error: 'Order must contain at least one line' };
+  }
+
+  const lines: OrderLine[] = [];
+  for (const input of inputs) {
+    const product = getProductById(input?.productId);
+    if (!product) {
+      return { success: false, error: `Unknown product: ${input?.productId}` };
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity < 1 || input.quantity > MAX_LINE_QUANTITY) {
+      return { success: false, error: `Invalid quantity for ${product.name}: ${input.quantity}` };
+    }
+
+    lines.push({
+      productId: product.id,
+      name: product.name,
+      unitPrice: product.price,
+      quantity: input.quantity,
+    });
+  }
+
+  const amount = addMoney(...lines.map(line => multiplyMoney(line.unitPrice, line.quantity)));
+  return { success: true, lines, amount };
+}
+
+type OrderChanges = Partial<Omit<Order, 'id' | 'createdAt'>>;
+
+export type AttachPaymentResult =
+  | { success: true; order: Order }
+  | { success: false; error: string };
+
+export class OrderRepository {
+  private store: KeyValueStore<Order>;
+  // Last queued change per order
+  private queues = new Map<string, Promise<unknown>>();
+  // Serializes attaching payments so two orders can't claim the same one
+  private paymentQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: KeyValueStore<Order>) {
+    this.store = store;
+  }
+
+  private exclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(id) ?? Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    this.queues.set(id, tail);
+    tail.then(() => {
+      if (this.queues.get(id) === tail) {
+        this.queues.delete(id);
+      }
+    });
+    return run;
+  }
+
+  private exclusivePayment<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.paymentQueue.then(task, task);
+    this.paymentQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Create a pending order for the payer, with the promotion that priced it
+   */
+  async create(lines: OrderLine[], amount: Money, payer: string, chainId: number, promotion?: PromotionQuote): Promise<Order> {
+    const now = Date.now();
+    const order: Order = {
+      id: randomUUID(),
+      lines,
+      amount,
+      discount: promotion?.discount,
+      promotionCode: promotion?.code,
+      payer,
+      payerInfoRequests: getPayerInfoRequests(lines),
+      payouts: getOrderPayouts(lines, amount),
+      chainId,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.set(order.id, order);
+    return order;
+  }
+
+  async get(id: string): Promise<Order | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Apply changes to an order and bump its update time
+   */
+  update(id: string, changes: OrderChanges): Promise<Order | undefined> {
+    return this.updateIf(id, () => true, changes);
+  }
+
+  /**
+   * Apply changes only if the order still matches `condition`, checked
+   * under the order's lock; resolves to undefined when it doesn't
+   */
+  updateIf(id: string, condition: (order: Order) => boolean, changes: OrderChanges): Promise<Order | undefined> {
+    return this.exclusive(id, async () => {
+      const order = await this.store.get(id);
+      if (!order || !condition(order)) {
+        return undefined;
+      }
+
+      const updated: Order = { ...order, ...changes, updatedAt: Date.now() };
+      await this.store.set(id, updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Like `updateIf`, for changes that attach a payment ID, calls ID or
+   * transaction hash: fails if another order already has any of them.
+   * The check and the update happen under one lock shared by all orders.
+   */
+  attachPayment(id: string, condition: (order: Order) => boolean, changes: OrderChanges): Promise<AttachPaymentResult> {
+    return this.exclusivePayment(async () => {
+      const { paymentId, callsId, transactionHash } = changes;
+      if (paymentId || callsId || transactionHash) {
+        const attachedTo = (await this.store.entries())
+          .map(([, order]) => order)
+          .find(order =>
+            order.id !== id &&
+            ((paymentId && order.paymentId === paymentId) ||
+              (callsId && order.callsId === callsId) ||
+              (transactionHash && order.transactionHash?.toLowerCase() === transactionHash.toLowerCase()))
+          );
+        if (attachedTo) {
+          return { success: false, error: 'Payment is already attached to another order', attachedTo: attachedTo.id };
+        }
+      }
+
+      const updated = await this.updateIf(id, condition, changes);
+      return updated
+        ? { success: true, order: updated }
+        : { success: false, error: 'Order changed while attaching the payment' };
+    });
+  }
+
+  /**
+   * Orders with a refund sent but not yet confirmed
+   */
+  async listWithPendingRefunds(): Promise<Order[]> {
+    return (await this.store.entries())
+      .map(([, order]) => order)
+      .filter(order => order.refunds?.some(refund => refund.status === 'pending'));
+  }
+
+  /**
+   * All orders placed by an account, newest first
+   */
+  async listByPayer(payer: string): Promise<Order[]> {
+    const orders = (await this.store.entries())
+      .map(([, order]) => order)
+      .filter(order => order.payer.toLowerCase() === payer.toLowerCase());
+    return orders.sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
+
+export const orderRepository = new OrderRepository(createStore<Order>('orders'));
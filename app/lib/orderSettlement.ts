@@ -0,0 +1,216 @@
+/**
+ * Order Settlement
+ *
+ * The one place a pending order becomes paid or failed, whichever path
+ * learns the outcome first: the order route (browser), the spend route or
+ * the server-side payment watcher. Settling an order also commits or
+ * releases its reserved stock and promotion use, and queues the
+ * merchant webhook. While a payment is registered its holds are extended
+ * (`extendOrderHolds`); a payment that still confirms after they lapsed
+ * and the stock or promotion use went elsewhere is recorded in
+ * `settlementIssues` rather than overselling. The status change is
+ * conditional on the order still being pending, so when the browser and
+ * the watcher race only the first settles it and the others are no-ops.
+ */
+
+import { createPublicClient, http, type Address, type Hex } from 'viem';
+import { orderRepository } from './orderRepository';
+import { inventoryRepository } from './inventoryRepository';
+import { promotionRepository } from './promotionRepository';
+import { resolvePaymentReceipt, resolvePayoutReceipt, PaymentReceiptResult, PayoutReceiptResult } from './paymentReceipt';
+import { webhookDispatcher } from './webhooks';
+import { appConfig } from '../config/app';
+import { getNetworkByChainId } from '../config/network';
+import { Order } from '../types/order';
+
+type SettlementChanges = Partial<Omit<Order, 'id' | 'createdAt' | 'status'>>;
+
+/**
+ * Check a Base Pay payment onchain against the order it should settle
+ */
+export async function verifyOrderPayment(order: Order, paymentId: string): Promise<PaymentReceiptResult> {
+  const network = getNetworkByChainId(order.chainId);
+  if (!network) {
+    return { success: false, error: `Unsupported chain ID: ${order.chainId}` };
+  }
+
+  const result = await resolvePaymentReceipt({
+    paymentId,
+    recipient: appConfig.merchantAddress,
+    amount: order.amount,
+    network,
+  });
+  if (result.success && result.receipt.payer.toLowerCase() !== order.payer.toLowerCase()) {
+    return { success: false, error: 'Payment was not made by the order payer' };
+  }
+  return result;
+}
+
+/**
+ * Check a split payment batch onchain against the order's payout legs
+ */
+export async function verifyOrderPayouts(order: Order, transactionHash: string): Promise<PayoutReceiptResult> {
+  const network = getNetworkByChainId(order.chainId);
+  if (!network) {
+    return { success: false, error: `Unsupported chain ID: ${order.chainId}` };
+  }
+  if (!order.payouts) {
+    return { success: false, error: 'Order is not a split payment' };
+  }
+
+  return resolvePayoutReceipt({
+    transactionHash: transactionHash as Hex,
+    payer: order.payer,
+    payouts: order.payouts,
+    network,
+  });
+}
+
+// CoinbaseSmartWallet owner check; the universal account owns its sub-accounts
+const smartWalletOwnerAbi = [
+  {
+    type: 'function',
+    name: 'isOwnerAddress',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'bool' }],
+  },
+] as const;
+
+/**
+ * Check a payment sent from one of the payer's sub-accounts: the
+ * sub-account must be owned by the order payer, and the transaction must
+ * pay the merchant (or every payout leg) from it
+ */
+export async function verifySubAccountPayment(
+  order: Order,
+  transactionHash: string,
+  subAccount: string
+): Promise<PayoutReceiptResult> {
+  const network = getNetworkByChainId(order.chainId);
+  if (!network) {
+    return { success: false, error: `Unsupported chain ID: ${order.chainId}` };
+  }
+
+  try {
+    const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+    const isOwner = await publicClient.readContract({
+      address: subAccount as Address,
+      abi: smartWalletOwnerAbi,
+      functionName: 'isOwnerAddress',
+      args: [order.payer as Address],
+    });
+    if (!isOwner) {
+      return { success: false, error: `${subAccount} is not a sub-account of the order payer` };
+    }
+  } catch (error) {
+    console.error('❌ Failed to check sub-account owner:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check sub-account owner',
+    };
+  }
+
+  return resolvePayoutReceipt({
+    transactionHash: transactionHash as Hex,
+    payer: subAccount,
+    payouts: order.payouts ?? [{ role: 'platform', recipient: appConfig.merchantAddress, amount: order.amount }],
+    network,
+  });
+}
+
+/**
+ * Keep an order's stock and promotion use held until `until`, for a
+ * registered payment that can still confirm until then
+ */
+export async function extendOrderHolds(orderId: string, until: number): Promise<void> {
+  const stock = await inventoryRepository.extend(orderId, until);
+  if (!stock.success) {
+    console.warn('⚠️ Could not keep stock held for order', orderId, stock.error);
+  }
+
+  const order = await orderRepository.get(orderId);
+  if (order?.promotionCode) {
+    const promotion = await promotionRepository.extend(order.promotionCode, orderId, until);
+    if (!promotion.success) {
+      console.warn('⚠️ Could not keep promotion held for order', orderId, promotion.error);
+    }
+  }
+}
+
+/**
+ * Mark an order paid, take its stock and notify the merchant; `condition`
+ * further limits which pending orders may be paid. An order is left
+ * pending if its payment or transaction is already on another order.
+ */
+export async function settleOrderPaid(
+  orderId: string,
+  changes: SettlementChanges,
+  condition: (order: Order) => boolean = () => true
+): Promise<Order | undefined> {
+  const result = await orderRepository.attachPayment(
+    orderId,
+    order => order.status === 'pending' && condition(order),
+    { ...changes, status: 'paid', error: undefined, paidAt: Date.now() }
+  );
+  if (!result.success) {
+    if (result.attachedTo) {
+      console.error('❌ Payment for order', orderId, 'is already attached to order', result.attachedTo);
+    }
+    return orderRepository.get(orderId);
+  }
+
+  const updated = result.order;
+
+  const issues: string[] = [];
+  const stock = await inventoryRepository.commit(orderId);
+  if (!stock.success) {
+    issues.push(`Sold out before the payment confirmed: ${stock.error}`);
+  }
+  if (updated.promotionCode) {
+    const promotion = await promotionRepository.commit(updated.promotionCode, orderId);
+    if (!promotion.success) {
+      issues.push(`Discount applied after the code ran out: ${promotion.error}`);
+    }
+  }
+
+  const paid = issues.length > 0
+    ? (await orderRepository.update(orderId, { settlementIssues: issues })) ?? updated
+    : updated;
+
+  try {
+    await webhookDispatcher.enqueue('order.paid', paid);
+  } catch (error) {
+    console.error('❌ Failed to queue order.paid webhook:', error);
+  }
+
+  console.log('✅ Order paid:', orderId);
+  return paid;
+}
+
+/**
+ * Mark an order failed and return its stock and promotion use; `condition`
+ * further limits which pending orders may fail
+ */
+export async function settleOrderFailed(
+  orderId: string,
+  changes: SettlementChanges,
+  condition: (order: Order) => boolean = () => true
+): Promise<Order | undefined> {
+  const updated = await orderRepository.updateIf(
+    orderId,
+    order => order.status === 'pending' && condition(order),
+    { ...changes, status: 'failed' }
+  );
+  if (!updated) {
+    return orderRepository.get(orderId);
+  }
+
+  await inventoryRepository.release(orderId);
+  if (updated.promotionCode) {
+    await promotionRepository.release(updated.promotionCode, orderId);
+  }
+
+  console.log('❌ Order failed:', orderId, changes.error);
+  return updated;
+}
@@ -0,0 +1,141 @@
+/**
+ * Payer Information
+ *
+ * Works out which payer details an order needs from its products and
+ * validates the details Base Pay collects. Used by the client to build the
+ * `payerInfo` passed to `pay()`, by the wallet callback route to reject bad
+ * details before the payment is sent, and by the order route before the
+ * details are stored.
+ */
+
+import type { PayerInfoResponses } from '@base-org/account';
+import { getProductById } from '../data/products';
+import { PayerInfoField, PayerInfoRequest } from '../types/product';
+import { Order, OrderLineInput } from '../types/order';
+
+// Order the wallet asks for details in
+const FIELD_ORDER: PayerInfoField[] = ['email', 'name', 'phoneNumber', 'physicalAddress'];
+
+// Field errors in the shape the wallet callback expects
+export type PayerInfoErrors = Partial<Record<PayerInfoField, string | Record<string, string>>>;
+
+// How each detail is named in the UI
+export const PAYER_INFO_LABELS: Record<PayerInfoField, string> = {
+  email: 'email',
+  name: 'name',
+  phoneNumber: 'phone number',
+  physicalAddress: 'shipping address',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s()-]{7,20}$/;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+/**
+ * Combine the payer details the ordered products ask for; a detail is
+ * optional only if every product that asks for it marks it optional
+ */
+export function getPayerInfoRequests(lines: OrderLineInput[]): PayerInfoRequest[] {
+  const requested = new Map<PayerInfoField, boolean>();
+  for (const line of lines) {
+    for (const request of getProductById(line.productId)?.payerInfo ?? []) {
+      const optional = requested.get(request.type) ?? true;
+      requested.set(request.type, optional && !!request.optional);
+    }
+  }
+
+  return FIELD_ORDER
+    .filter(type => requested.has(type))
+    .map(type => (requested.get(type) ? { type, optional: true } : { type }));
+}
+
+/**
+ * Whether any detail must be provided, which only a Base Pay payment can do
+ */
+export function requiresPayerInfo(requests: PayerInfoRequest[] | undefined): boolean {
+  return !!requests?.some(request => !request.optional);
+}
+
+function validateName(name: { firstName?: string; familyName?: string }): string | null {
+  return name.firstName?.trim() && name.familyName?.trim() ? null : 'First and family name are required';
+}
+
+/**
+ * Check the format of the provided details and, when `requests` is given,
+ * that every required detail is present. Returns null when valid.
+ */
+export function validatePayerInfo(info: PayerInfoResponses, requests?: PayerInfoRequest[]): PayerInfoErrors | null {
+  const errors: PayerInfoErrors = {};
+
+  for (const request of requests ?? []) {
+    if (!request.optional && !info[request.type]) {
+      errors[request.type] = 'This field is required';
+    }
+  }
+
+  if (info.email && !EMAIL_PATTERN.test(info.email)) {
+    errors.email = 'Invalid email address';
+  }
+
+  if (info.name) {
+    const nameError = validateName(info.name);
+    if (nameError) errors.name = nameError;
+  }
+
+  if (info.phoneNumber && !PHONE_PATTERN.test(info.phoneNumber.number)) {
+    errors.phoneNumber = 'Invalid phone number';
+  }
+
+  if (info.physicalAddress) {
+    const address = info.physicalAddress;
+    const addressErrors: Record<string, string> = {};
+    if (!address.address1?.trim()) addressErrors.address1 = 'Street address is required';
+    if (!address.city?.trim()) addressErrors.city = 'City is required';
+    if (!address.postalCode?.trim()) addressErrors.postalCode = 'Postal code is required';
+    if (!COUNTRY_CODE_PATTERN.test(address.countryCode ?? '')) addressErrors.countryCode = 'Use a two-letter country code';
+    if (address.name) {
+      const nameError = validateName(address.name);
+      if (nameError) addressErrors.name = nameError;
+    }
+    if (Object.keys(addressErrors).length > 0) {
+      errors.physicalAddress = addressErrors;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+/**
+ * Keep only the details that were asked for
+ */
+export function pickPayerInfo(info: PayerInfoResponses, requests: PayerInfoRequest[]): PayerInfoResponses {
+  const picked: PayerInfoResponses = {};
+  for (const { type } of requests) {
+    if (info[type] !== undefined) {
+      Object.assign(picked, { [type]: info[type] });
+    }
+  }
+  return picked;
+}
+
+/**
+ * Payer details to store on an order: only the requested fields, or, when
+ * they are missing or invalid, which details still have to be collected.
+ * Nothing changes once the order has valid details.
+ */
+export function acceptPayerInfo(
+  order: Order,
+  info: PayerInfoResponses | undefined
+): Pick<Order, 'payerInfo' | 'payerInfoMissing'> {
+  if (order.payerInfo) {
+    return {};
+  }
+
+  const requests = order.payerInfoRequests ?? [];
+  const errors = validatePayerInfo(info ?? {}, requests);
+  if (errors) {
+    console.warn('⚠️ Payer info for order', order.id, 'is missing or invalid:', errors);
+    return { payerInfoMissing: FIELD_ORDER.filter(type => errors[type]) };
+  }
+  return info ? { payerInfo: pickPayerInfo(info, requests), payerInfoMissing: undefined } : {};
+}
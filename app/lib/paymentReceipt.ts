@@ -0,0 +1,178 @@
+/**
+ * Payment Receipts
+ *
+ * Resolves a Base Pay payment ID to the transaction that carried it and
+ * checks the USDC transfer onchain. A payment ID is the user operation hash
+ * of the payment batch, so it is looked up through the bundler first and
+ * the resulting transaction receipt is then read through a public client.
+ * Used by the client after checkout and by server-side payment tracking.
+ * Split payments are sent by the payer as a batch of transfers and are
+ * checked by transaction hash instead, one transfer per payout leg; the
+ * batch's calls ID resolves to that hash through the bundler the same way.
+ */
+
+import { createPublicClient, erc20Abi, http, isAddressEqual, parseEventLogs, type Address, type Hex } from 'viem';
+import { createBundlerClient, UserOperationReceiptNotFoundError } from 'viem/account-abstraction';
+import { NetworkConfig } from '../config/network';
+import { Money, formatUSDC } from './money';
+import { OrderPayout } from '../types/order';
+
+export interface PaymentReceipt {
+  paymentId: string;
+  transactionHash: Hex;
+  blockNumber: bigint;
+  payer: Address;
+  recipient: Address;
+  amount: Money;
+}
+
+export interface ExpectedPayment {
+  paymentId: string;
+  recipient: string;
+  amount: Money;
+  network: NetworkConfig;
+}
+
+export type PaymentReceiptResult =
+  | { success: true; receipt: PaymentReceipt }
+  | { success: false; error: string };
+
+export interface ExpectedPayouts {
+  transactionHash: Hex;
+  payer: string;
+  payouts: OrderPayout[];
+  network: NetworkConfig;
+}
+
+export type PayoutReceiptResult =
+  | { success: true; transactionHash: Hex; blockNumber: bigint }
+  | { success: false; error: string };
+
+export type CallsTransactionResult =
+  | { status: 'confirmed'; transactionHash: Hex }
+  | { status: 'failed'; reason: string }
+  | { status: 'pending' };
+
+/**
+ * Find the transaction a Base Account `wallet_sendCalls` batch landed in.
+ * Like a payment ID, its calls ID is the batch's user operation hash,
+ * optionally followed by a suffix.
+ */
+export async function resolveCallsTransaction(callsId: string, network: NetworkConfig): Promise<CallsTransactionResult> {
+  const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+  const bundlerClient = createBundlerClient({ client: publicClient, transport: http(network.bundlerUrl) });
+
+  try {
+    const userOperation = await bundlerClient.getUserOperationReceipt({ hash: callsId.slice(0, 66) as Hex });
+    if (!userOperation.success) {
+      return { status: 'failed', reason: userOperation.reason || 'Payment user operation reverted' };
+    }
+    return { status: 'confirmed', transactionHash: userOperation.receipt.transactionHash };
+  } catch (error) {
+    if (error instanceof UserOperationReceiptNotFoundError) {
+      return { status: 'pending' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a completed Base Pay payment to its transaction receipt and
+ * verify it moved exactly the expected USDC amount to the expected recipient
+ */
+export async function resolvePaymentReceipt({ paymentId, recipient, amount, network }: ExpectedPayment): Promise<PaymentReceiptResult> {
+  try {
+    const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+    const bundlerClient = createBundlerClient({ client: publicClient, transport: http(network.bundlerUrl) });
+
+    // Payment IDs may carry a suffix after the 32-byte user operation hash
+    const userOperationHash = paymentId.slice(0, 66) as Hex;
+    const userOperation = await bundlerClient.getUserOperationReceipt({ hash: userOperationHash });
+    if (!userOperation.success) {
+      return { success: false, error: userOperation.reason || 'Payment user operation reverted' };
+    }
+
+    const transactionHash = userOperation.receipt.transactionHash;
+    const receipt = await publicClient.getTransactionReceipt({ hash: transactionHash });
+    if (receipt.status !== 'success') {
+      return { success: false, error: `Payment transaction reverted: ${transactionHash}` };
+    }
+
+    // The bundle may hold other user operations, so only count transfers
+    // from the paying account
+    const payer = userOperation.sender;
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs }).filter(
+      (log) => isAddressEqual(log.address, network.usdcAddress) && isAddressEqual(log.args.from, payer)
+    );
+
+    if (transfers.length !== 1) {
+      return { success: false, error: `Expected one USDC transfer from ${payer}, found ${transfers.length}` };
+    }
+
+    const transfer = transfers[0];
+    if (!isAddressEqual(transfer.args.to, recipient as Address)) {
+      return { success: false, error: `USDC was sent to ${transfer.args.to}, expected ${recipient}` };
+    }
+    if (transfer.args.value !== amount) {
+      return { success: false, error: `USDC transfer of ${formatUSDC(transfer.args.value)} does not match expected ${formatUSDC(amount)}` };
+    }
+
+    return {
+      success: true,
+      receipt: {
+        paymentId,
+        transactionHash,
+        blockNumber: receipt.blockNumber,
+        payer,
+        recipient: transfer.args.to,
+        amount: transfer.args.value,
+      },
+    };
+  } catch (error) {
+    console.error('❌ Failed to resolve payment receipt:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resolve payment receipt',
+    };
+  }
+}
+
+/**
+ * Check that a split payment transaction moved exactly one USDC transfer
+ * from the payer for each payout leg, and nothing else
+ */
+export async function resolvePayoutReceipt({ transactionHash, payer, payouts, network }: ExpectedPayouts): Promise<PayoutReceiptResult> {
+  try {
+    const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+    const receipt = await publicClient.getTransactionReceipt({ hash: transactionHash });
+    if (receipt.status !== 'success') {
+      return { success: false, error: `Payment transaction reverted: ${transactionHash}` };
+    }
+
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs }).filter(
+      (log) => isAddressEqual(log.address, network.usdcAddress) && isAddressEqual(log.args.from, payer as Address)
+    );
+    if (transfers.length !== payouts.length) {
+      return { success: false, error: `Expected ${payouts.length} USDC transfers from ${payer}, found ${transfers.length}` };
+    }
+
+    const unmatched = [...transfers];
+    for (const leg of payouts) {
+      const index = unmatched.findIndex(
+        (log) => isAddressEqual(log.args.to, leg.recipient as Address) && log.args.value === leg.amount
+      );
+      if (index === -1) {
+        return { success: false, error: `No USDC transfer of ${formatUSDC(leg.amount)} to the ${leg.role} (${leg.recipient})` };
+      }
+      unmatched.splice(index, 1);
+    }
+
+    return { success: true, transactionHash, blockNumber: receipt.blockNumber };
+  } catch (error) {
+    console.error('❌ Failed to resolve payout receipt:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resolve payout receipt',
+    };
+  }
+}
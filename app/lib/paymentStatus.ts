@@ -0,0 +1,167 @@
+/**
+ * Payment Status Polling
+ *
+ * Polls `getPaymentStatus` for a Base Pay payment until it settles, with
+ * exponential backoff, an overall timeout and AbortSignal cancellation.
+ * Errors while checking are retried rather than reported as a failed
+ * payment: the money may have moved even if a status call did not succeed.
+ * A payment that has not settled when polling stops is reported as
+ * 'unknown' so the caller can keep tracking it later.
+ * Batches sent with `wallet_sendCalls` (split payments) are polled the
+ * same way through `wallet_getCallsStatus`.
+ */
+
+import { getPaymentStatus, type PaymentStatus } from '@base-org/account';
+
+export interface PollPaymentOptions {
+  paymentId: string;
+  testnet: boolean; // Must match the testnet setting used in pay()
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  onStatus?: (status: PaymentStatus) => void;
+}
+
+export type PollPaymentResult =
+  | { status: 'completed'; payment: PaymentStatus }
+  | { status: 'failed'; reason: string }
+  | { status: 'unknown'; reason: string; cancelled: boolean };
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15 * 1000;
+const BACKOFF_FACTOR = 2;
+
+/**
+ * Wait for `ms`, resolving early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Poll a payment's status until it completes, fails, times out or is cancelled
+ */
+export async function pollPaymentStatus({
+  paymentId,
+  testnet,
+  signal,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  onStatus,
+}: PollPaymentOptions): Promise<PollPaymentResult> {
+  const deadline = Date.now() + timeoutMs;
+  let delay = initialDelayMs;
+  let lastIssue = 'Payment is still pending';
+
+  while (!signal?.aborted && Date.now() < deadline) {
+    try {
+      const status = await getPaymentStatus({ id: paymentId, testnet });
+      onStatus?.(status);
+
+      if (status.status === 'completed') {
+        return { status: 'completed', payment: status };
+      }
+      if (status.status === 'failed') {
+        return { status: 'failed', reason: status.reason || 'Payment failed or was cancelled' };
+      }
+
+      // 'pending', or 'not_found' while the bundler catches up
+      lastIssue = status.status === 'pending' ? 'Payment is still pending' : 'Payment not found yet';
+    } catch (error) {
+      console.warn('Payment status check failed, retrying:', error);
+      lastIssue = error instanceof Error ? error.message : 'Failed to check payment status';
+    }
+
+    await sleep(Math.min(delay, Math.max(deadline - Date.now(), 0)), signal);
+    delay = Math.min(delay * BACKOFF_FACTOR, maxDelayMs);
+  }
+
+  if (signal?.aborted) {
+    return { status: 'unknown', reason: 'Payment tracking was cancelled', cancelled: true };
+  }
+  return { status: 'unknown', reason: `Timed out waiting for payment: ${lastIssue}`, cancelled: false };
+}
+
+// EIP-1193 provider able to answer `wallet_getCallsStatus`
+interface CallsStatusProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+interface CallsStatus {
+  status: number | string; // EIP-5792 code, or 'PENDING' / 'CONFIRMED' from older wallets
+  receipts?: { status: string; transactionHash: string }[];
+}
+
+export interface PollCallsOptions {
+  provider: CallsStatusProvider;
+  callsId: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export type PollCallsResult =
+  | { status: 'confirmed'; transactionHash: string }
+  | { status: 'failed'; reason: string }
+  | { status: 'unknown'; reason: string; cancelled: boolean };
+
+/**
+ * Poll a `wallet_sendCalls` batch until it is included onchain, fails,
+ * times out or is cancelled
+ */
+export async function pollCallsStatus({
+  provider,
+  callsId,
+  signal,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+}: PollCallsOptions): Promise<PollCallsResult> {
+  const deadline = Date.now() + timeoutMs;
+  let delay = initialDelayMs;
+  let lastIssue = 'Batch is still pending';
+
+  while (!signal?.aborted && Date.now() < deadline) {
+    try {
+      const calls = (await provider.request({ method: 'wallet_getCallsStatus', params: [callsId] })) as CallsStatus;
+      const receipt = calls.receipts?.[0];
+
+      if (calls.status === 200 || calls.status === 'CONFIRMED') {
+        if (!receipt) {
+          return { status: 'failed', reason: 'Batch confirmed without a receipt' };
+        }
+        // Atomic batches land in a single transaction
+        return receipt.status === 'success' || receipt.status === '0x1'
+          ? { status: 'confirmed', transactionHash: receipt.transactionHash }
+          : { status: 'failed', reason: `Payment transaction reverted: ${receipt.transactionHash}` };
+      }
+      if (typeof calls.status === 'number' && calls.status >= 400) {
+        return { status: 'failed', reason: `Batch failed with status ${calls.status}` };
+      }
+      lastIssue = 'Batch is still pending';
+    } catch (error) {
+      console.warn('Batch status check failed, retrying:', error);
+      lastIssue = error instanceof Error ? error.message : 'Failed to check batch status';
+    }
+
+    await sleep(Math.min(delay, Math.max(deadline - Date.now(), 0)), signal);
+    delay = Math.min(delay * BACKOFF_FACTOR, maxDelayMs);
+  }
+
+  if (signal?.aborted) {
+    return { status: 'unknown', reason: 'Payment tracking was cancelled', cancelled: true };
+  }
+  return { status: 'unknown', reason: `Timed out waiting for payment: ${lastIssue}`, cancelled: false };
+}
@@ -0,0 +1,195 @@
+/**
+ * Payment Watcher
+ *
+ * Confirms payments on the server so a sale is not lost when the shopper
+ * closes the tab mid-poll. The client registers each Base Pay payment ID,
+ * or the calls ID of a split or sub-account payment batch, with its order
+ * as soon as it is submitted (see `/api/payments/register`); `checkDue` is
+ * then run periodically (see `backgroundJobs.ts`) and settles the order
+ * once the outcome is known and the onchain receipt checks out. Watches
+ * live in a `KeyValueStore` (see `storage.ts`) so they survive restarts.
+ */
+
+import { getPaymentStatus } from '@base-org/account';
+import { createStore, KeyValueStore } from './storage';
+import { orderRepository } from './orderRepository';
+import {
+  extendOrderHolds,
+  settleOrderFailed,
+  settleOrderPaid,
+  verifyOrderPayment,
+  verifyOrderPayouts,
+  verifySubAccountPayment,
+} from './orderSettlement';
+import { resolveCallsTransaction } from './paymentReceipt';
+import { getNetworkByChainId, NetworkConfig } from '../config/network';
+import { Order } from '../types/order';
+
+// A Base Pay payment, or a `wallet_sendCalls` batch of split transfers or
+// of a transfer from a sub-account
+export type WatchedPaymentKind = 'base_pay' | 'calls';
+
+export interface WatchedPayment {
+  paymentId: string; // Base Pay payment ID or calls ID
+  kind: WatchedPaymentKind;
+  orderId: string;
+  registeredAt: number; // Unix milliseconds
+  checks: number;
+  nextCheckAt: number; // Unix milliseconds
+  lastIssue?: string;
+}
+
+const INITIAL_CHECK_DELAY_MS = 5 * 1000;
+const MAX_CHECK_DELAY_MS = 5 * 60 * 1000;
+// Same limit the client uses for resuming a pending payment
+const MAX_WATCH_AGE_MS = 24 * 60 * 60 * 1000;
+
+export class PaymentWatcher {
+  private store: KeyValueStore<WatchedPayment>;
+  // Serializes runs so a slow check is never started twice
+  private running: Promise<void> | null = null;
+
+  constructor(store: KeyValueStore<WatchedPayment>) {
+    this.store = store;
+  }
+
+  /**
+   * Start watching a submitted payment for an order
+   */
+  async watch(orderId: string, paymentId: string, kind: WatchedPaymentKind = 'base_pay'): Promise<WatchedPayment> {
+    const existing = await this.store.get(paymentId);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const watched: WatchedPayment = {
+      paymentId,
+      kind,
+      orderId,
+      registeredAt: now,
+      checks: 0,
+      nextCheckAt: now + INITIAL_CHECK_DELAY_MS,
+    };
+    await this.store.set(paymentId, watched);
+    // The payment can confirm until the watch expires
+    await extendOrderHolds(orderId, now + MAX_WATCH_AGE_MS);
+    console.log('👀 Watching payment', paymentId, 'for order', orderId);
+    return watched;
+  }
+
+  /**
+   * Settle the order from a Base Pay payment; returns why it can't yet,
+   * or null once it is settled
+   */
+  private async checkBasePay(order: Order, paymentId: string, network: NetworkConfig): Promise<string | null> {
+    const status = await getPaymentStatus({ id: paymentId, testnet: network.testnet });
+
+    if (status.status === 'failed') {
+      await settleOrderFailed(order.id, { error: status.reason || 'Payment failed or was cancelled' });
+      return null;
+    }
+
+    if (status.status === 'completed') {
+      const result = await verifyOrderPayment(order, paymentId);
+      if (result.success) {
+        await settleOrderPaid(order.id, { transactionHash: result.receipt.transactionHash });
+        return null;
+      }
+      // Often a lagging RPC node; keep checking until the watch expires
+      return result.error;
+    }
+    return status.status === 'pending' ? 'Payment is still pending' : 'Payment not found yet';
+  }
+
+  /**
+   * Settle the order from a batch of split transfers or a sub-account
+   * transfer; returns why it can't yet, or null once it is settled
+   */
+  private async checkCalls(order: Order, callsId: string, network: NetworkConfig): Promise<string | null> {
+    const outcome = await resolveCallsTransaction(callsId, network);
+
+    if (outcome.status === 'failed') {
+      await settleOrderFailed(order.id, { error: outcome.reason });
+      return null;
+    }
+    if (outcome.status === 'pending') {
+      return 'Payment is still pending';
+    }
+
+    const result = order.paidFrom
+      ? await verifySubAccountPayment(order, outcome.transactionHash, order.paidFrom)
+      : await verifyOrderPayouts(order, outcome.transactionHash);
+    if (result.success) {
+      await settleOrderPaid(order.id, { transactionHash: result.transactionHash });
+      return null;
+    }
+    return result.error;
+  }
+
+  /**
+   * Check one payment; returns the watch to keep, or null when it is done
+   */
+  private async check(watched: WatchedPayment): Promise<WatchedPayment | null> {
+    const order = await orderRepository.get(watched.orderId);
+    if (!order || order.status !== 'pending') {
+      return null;
+    }
+
+    if (Date.now() - watched.registeredAt > MAX_WATCH_AGE_MS) {
+      await settleOrderFailed(order.id, { error: 'Payment was not confirmed within 24 hours' });
+      return null;
+    }
+
+    const network = getNetworkByChainId(order.chainId);
+    if (!network) {
+      await settleOrderFailed(order.id, { error: `Unsupported chain ID: ${order.chainId}` });
+      return null;
+    }
+
+    let issue: string | null;
+    try {
+      issue = watched.kind === 'calls'
+        ? await this.checkCalls(order, watched.paymentId, network)
+        : await this.checkBasePay(order, watched.paymentId, network);
+    } catch (error) {
+      issue = error instanceof Error ? error.message : 'Failed to check payment status';
+    }
+    if (issue === null) {
+      return null;
+    }
+
+    const checks = watched.checks + 1;
+    const delay = Math.min(INITIAL_CHECK_DELAY_MS * 2 ** checks, MAX_CHECK_DELAY_MS);
+    return { ...watched, checks, nextCheckAt: Date.now() + delay, lastIssue: issue };
+  }
+
+  private async runDue(): Promise<void> {
+    const due = (await this.store.entries())
+      .map(([, watched]) => watched)
+      .filter(watched => watched.nextCheckAt <= Date.now());
+
+    for (const watched of due) {
+      const next = await this.check(watched);
+      if (next) {
+        await this.store.set(next.paymentId, next);
+      } else {
+        await this.store.delete(watched.paymentId);
+      }
+    }
+  }
+
+  /**
+   * Check every watched payment that is due
+   */
+  checkDue(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runDue().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+}
+
+export const paymentWatcher = new PaymentWatcher(createStore<WatchedPayment>('payment-watches'));
@@ -0,0 +1,111 @@
+/**
+ * Payout Splits
+ *
+ * Divides an order among the sellers, the platform (the merchant address)
+ * and affiliates named in each product's `payoutSplit`, and encodes the
+ * USDC transfers that pay them in one atomic `wallet_sendCalls` batch.
+ * Used by the order route when pricing an order and by the client when
+ * building the batch; the server checks the batch onchain with
+ * `resolvePayoutReceipt` (see `paymentReceipt.ts`).
+ */
+
+import { encodeFunctionData, erc20Abi, getAddress, type Address, type Hex } from 'viem';
+import { appConfig } from '../config/app';
+import { NetworkConfig } from '../config/network';
+import { getProductById } from '../data/products';
+import { addMoney, Money, multiplyMoney, ZERO_MONEY } from './money';
+import { PayoutShare } from '../types/product';
+import { OrderLine, OrderPayout } from '../types/order';
+
+export const TOTAL_BASIS_POINTS = 10000;
+
+export interface TransferCall {
+  to: Address;
+  data: Hex;
+  value: Hex;
+}
+
+function recipientOf(share: PayoutShare): Address {
+  if (share.role === 'platform') {
+    return appConfig.merchantAddress;
+  }
+  if (!share.recipient) {
+    throw new Error(`Payout share for ${share.role} has no recipient`);
+  }
+  return getAddress(share.recipient);
+}
+
+/**
+ * Split an order's amount into payout legs, or undefined when none of its
+ * products has a payout split and the merchant is paid in full. Shares are
+ * taken from each line total, rounding leftovers go to the platform, and a
+ * promotion discount is shared by every leg in proportion.
+ */
+export function getOrderPayouts(lines: OrderLine[], amount: Money): OrderPayout[] | undefined {
+  const splits = lines.map(line => getProductById(line.productId)?.payoutSplit);
+  if (splits.every(split => !split)) {
+    return undefined;
+  }
+
+  const legs = new Map<string, OrderPayout>();
+  const credit = (role: OrderPayout['role'], recipient: Address, credited: Money) => {
+    const key = `${role}:${recipient}`;
+    const leg = legs.get(key) ?? { role, recipient, amount: ZERO_MONEY };
+    legs.set(key, { ...leg, amount: leg.amount + credited });
+  };
+
+  let subtotal = ZERO_MONEY;
+  lines.forEach((line, index) => {
+    const total = multiplyMoney(line.unitPrice, line.quantity);
+    subtotal += total;
+
+    const split = splits[index] ?? [{ role: 'platform', basisPoints: TOTAL_BASIS_POINTS }];
+    if (split.reduce((sum, share) => sum + share.basisPoints, 0) !== TOTAL_BASIS_POINTS) {
+      throw new Error(`Payout split for ${line.name} does not add up to ${TOTAL_BASIS_POINTS} basis points`);
+    }
+
+    let paid = ZERO_MONEY;
+    for (const share of split) {
+      const cut = (total * BigInt(share.basisPoints)) / BigInt(TOTAL_BASIS_POINTS);
+      credit(share.role, recipientOf(share), cut);
+      paid += cut;
+    }
+    credit('platform', appConfig.merchantAddress, total - paid);
+  });
+
+  let payouts = Array.from(legs.values());
+  if (amount !== subtotal && subtotal > ZERO_MONEY) {
+    payouts = payouts.map(leg => ({ ...leg, amount: (leg.amount * amount) / subtotal }));
+    const leftover = amount - addMoney(...payouts.map(leg => leg.amount));
+    const platform = payouts.find(leg => leg.role === 'platform');
+    if (platform) {
+      platform.amount += leftover;
+    } else {
+      payouts.push({ role: 'platform', recipient: appConfig.merchantAddress, amount: leftover });
+    }
+  }
+
+  return payouts.filter(leg => leg.amount > ZERO_MONEY);
+}
+
+/**
+ * Calldata for a USDC `transfer`
+ */
+export function encodeUSDCTransfer(recipient: string, amount: Money): Hex {
+  return encodeFunctionData({
+    abi: erc20Abi,
+    functionName: 'transfer',
+    args: [getAddress(recipient), amount],
+  });
+}
+
+/**
+ * One USDC transfer call per payout leg, for `wallet_sendCalls`
+ */
+export function buildPayoutCalls(payouts: OrderPayout[], network: NetworkConfig): TransferCall[] {
+  return payouts.map(leg => ({
+    to: network.usdcAddress,
+    data: encodeUSDCTransfer(leg.recipient, leg.amount),
+    value: '0x0',
+  }));
+}
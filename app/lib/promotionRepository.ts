@@ -0,0 +1,248 @@
+/**
+ * Promotion Repository
+ *
+ * Applies coupon codes from `data/promotions.ts` to priced order lines and
+ * counts redemptions in a `KeyValueStore` (see `storage.ts`) so usage
+ * limits survive restarts. Discounts are always computed here on the
+ * server; the client only previews them through a quote.
+ *
+ * A code is redeemed when its order is created, which holds one use until
+ * the order is paid (`commit`) or fails (`release`). Like stock
+ * reservations, holds expire after `RESERVATION_TTL_MS` so abandoned
+ * checkouts give their use back, and `extend` keeps the use held while a
+ * registered payment can still confirm.
+ */
+
+import { createStore, KeyValueStore } from './storage';
+import { RESERVATION_TTL_MS } from './inventoryRepository';
+import { getPromotionByCode } from '../data/promotions';
+import { addMoney, formatUSDC, minMoney, Money, multiplyMoney, parseMoney, ZERO_MONEY } from './money';
+import { OrderLine } from '../types/order';
+import { Promotion, PromotionQuote } from '../types/promotion';
+
+// Orders always charge something; Base Pay can't send a zero payment
+export const MIN_ORDER_AMOUNT = parseMoney('0.01');
+
+export interface PromotionUsage {
+  code: string;
+  orderIds: string[]; // Paid orders the code was used on
+  holds?: Record<string, number>; // Unpaid orders holding a use, by when the hold expires
+}
+
+export type PromotionQuoteResult =
+  | { success: true; quote: PromotionQuote }
+  | { success: false; error: string };
+
+export type PromotionRedeemResult =
+  | { success: true }
+  | { success: false; error: string };
+
+function lineTotal(line: OrderLine): Money {
+  return multiplyMoney(line.unitPrice, line.quantity);
+}
+
+/**
+ * Work out the discount a promotion gives on a set of lines at `now`
+ */
+export function applyPromotion(promotion: Promotion, lines: OrderLine[], now = Date.now()): PromotionQuoteResult {
+  const { code } = promotion;
+  if (promotion.startsAt && now < Date.parse(promotion.startsAt)) {
+    return { success: false, error: `${code} is not active yet` };
+  }
+  if (promotion.endsAt && now > Date.parse(promotion.endsAt)) {
+    return { success: false, error: `${code} has expired` };
+  }
+
+  const subtotal = addMoney(...lines.map(lineTotal));
+  if (promotion.minSubtotal && subtotal < promotion.minSubtotal) {
+    return { success: false, error: `${code} needs an order of at least ${formatUSDC(promotion.minSubtotal)}` };
+  }
+
+  const eligible = promotion.scope === 'cart'
+    ? lines
+    : lines.filter(line => promotion.productIds?.includes(line.productId));
+  if (eligible.length === 0) {
+    return { success: false, error: `${code} doesn't apply to these products` };
+  }
+
+  let discount: Money;
+  if (promotion.type === 'percent') {
+    // Rounded down to the nearest minor unit
+    discount = multiplyMoney(addMoney(...eligible.map(lineTotal)), promotion.percentOff ?? 0) / BigInt(100);
+  } else if (promotion.scope === 'cart') {
+    discount = promotion.amountOff ?? ZERO_MONEY;
+  } else {
+    const amountOff = promotion.amountOff ?? ZERO_MONEY;
+    discount = addMoney(...eligible.map(line => minMoney(multiplyMoney(amountOff, line.quantity), lineTotal(line))));
+  }
+
+  discount = minMoney(discount, subtotal - MIN_ORDER_AMOUNT);
+  if (discount < ZERO_MONEY) {
+    discount = ZERO_MONEY;
+  }
+
+  return {
+    success: true,
+    quote: {
+      code,
+      description: promotion.description,
+      subtotal,
+      discount,
+      amount: subtotal - discount,
+    },
+  };
+}
+
+export class PromotionRepository {
+  private store: KeyValueStore<PromotionUsage>;
+  // Serializes changes so two checkouts can't both take the last use
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: KeyValueStore<PromotionUsage>) {
+    this.store = store;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Paid uses plus unexpired holds
+   */
+  private countUses(usage: PromotionUsage | undefined, now = Date.now()): number {
+    if (!usage) {
+      return 0;
+    }
+    const held = Object.entries(usage.holds ?? {})
+      .filter(([orderId, expiresAt]) => expiresAt > now && !usage.orderIds.includes(orderId));
+    return usage.orderIds.length + held.length;
+  }
+
+  async getUsageCount(code: string): Promise<number> {
+    return this.countUses(await this.store.get(code));
+  }
+
+  /**
+   * Price lines with a promotion code, enforcing its usage limit
+   */
+  async quote(code: string, lines: OrderLine[]): Promise<PromotionQuoteResult> {
+    const promotion = getPromotionByCode(code);
+    if (!promotion) {
+      return { success: false, error: `Unknown promotion code: ${code}` };
+    }
+
+    if (promotion.usageLimit !== undefined && (await this.getUsageCount(promotion.code)) >= promotion.usageLimit) {
+      return { success: false, error: `${promotion.code} has been fully redeemed` };
+    }
+
+    return applyPromotion(promotion, lines);
+  }
+
+  /**
+   * Hold one use of a code for a new order, failing once the usage limit
+   * is reached
+   */
+  redeem(code: string, orderId: string): Promise<PromotionRedeemResult> {
+    return this.exclusive(async () => {
+      const promotion = getPromotionByCode(code);
+      if (!promotion) {
+        return { success: false, error: `Unknown promotion code: ${code}` };
+      }
+
+      const now = Date.now();
+      const usage = (await this.store.get(promotion.code)) ?? { code: promotion.code, orderIds: [] };
+      if (promotion.usageLimit !== undefined && this.countUses(usage, now) >= promotion.usageLimit) {
+        return { success: false, error: `${promotion.code} has been fully redeemed` };
+      }
+
+      await this.store.set(promotion.code, {
+        ...usage,
+        holds: { ...usage.holds, [orderId]: now + RESERVATION_TTL_MS },
+      });
+      console.log('🏷️ Redeemed promotion', promotion.code, 'on order', orderId);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Whether an order whose hold may have lapsed can still take a use
+   */
+  private canUse(code: string, usage: PromotionUsage, orderId: string, now: number): boolean {
+    const usageLimit = getPromotionByCode(code)?.usageLimit;
+    const held = (usage.holds?.[orderId] ?? 0) > now;
+    return held || usageLimit === undefined || this.countUses(usage, now) < usageLimit;
+  }
+
+  /**
+   * Keep an order's use held until `expiresAt`. A hold that already lapsed
+   * is taken again only if the code still has a use left.
+   */
+  extend(code: string, orderId: string, expiresAt: number): Promise<PromotionRedeemResult> {
+    return this.exclusive(async () => {
+      const usage = await this.store.get(code);
+      if (usage?.orderIds.includes(orderId)) {
+        return { success: true };
+      }
+      if (!usage?.holds || !(orderId in usage.holds)) {
+        return { success: false, error: `${code} is not held for this order` };
+      }
+      if (!this.canUse(code, usage, orderId, Date.now())) {
+        return { success: false, error: `${code} has been fully redeemed` };
+      }
+
+      await this.store.set(code, {
+        ...usage,
+        holds: { ...usage.holds, [orderId]: Math.max(usage.holds[orderId], expiresAt) },
+      });
+      console.log('🏷️ Extended promotion', code, 'hold for order', orderId);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Count a paid order's use for good. If its hold lapsed and other orders
+   * took the remaining uses meanwhile, the use is not counted and an error
+   * is returned, so the limit is never exceeded.
+   */
+  commit(code: string, orderId: string): Promise<PromotionRedeemResult> {
+    return this.exclusive(async () => {
+      const usage = (await this.store.get(code)) ?? { code, orderIds: [] };
+      if (usage.orderIds.includes(orderId)) {
+        return { success: true };
+      }
+
+      const holds = { ...usage.holds };
+      delete holds[orderId];
+      if (!this.canUse(code, usage, orderId, Date.now())) {
+        await this.store.set(code, { ...usage, holds });
+        console.warn(`⚠️ Order ${orderId} was paid after ${code} was fully redeemed`);
+        return { success: false, error: `${code} has been fully redeemed` };
+      }
+
+      await this.store.set(code, { ...usage, orderIds: [...usage.orderIds, orderId], holds });
+      console.log('🏷️ Committed promotion', code, 'for order', orderId);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Give a failed order's use back
+   */
+  release(code: string, orderId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const usage = await this.store.get(code);
+      if (!usage?.holds || !(orderId in usage.holds)) {
+        return;
+      }
+
+      const holds = { ...usage.holds };
+      delete holds[orderId];
+      await this.store.set(code, { ...usage, holds });
+      console.log('🏷️ Released promotion', code, 'from order', orderId);
+    });
+  }
+}
+
+export const promotionRepository = new PromotionRepository(createStore<PromotionUsage>('promotion-usage'));
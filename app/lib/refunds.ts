@@ -0,0 +1,267 @@
+/**
+ * Refunds
+ *
+ * Sends USDC from the merchant wallet (`MERCHANT_PRIVATE_KEY`) back to the
+ * payer of a paid order, in full or in part, and records each refund on
+ * the order. An order moves to 'partially_refunded' until everything the
+ * merchant received has been returned, then to 'refunded'. Refunds run one
+ * at a time so two requests can never together return more than the
+ * merchant received: the whole amount, or only the platform leg of a split
+ * order, since the other legs went straight to their sellers.
+ *
+ * A refund is recorded as 'pending' with its transaction hash as soon as
+ * the transfer is sent, then marked 'completed' or 'failed' from its
+ * receipt. If the receipt can't be read the refund stays pending and is
+ * reconciled by `reconcilePendingRefunds` (see `backgroundJobs.ts`) or the
+ * next refund attempt; no new refund is sent for an order while one is
+ * pending.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  http,
+  TransactionReceiptNotFoundError,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { orderRepository } from './orderRepository';
+import { webhookDispatcher } from './webhooks';
+import { addMoney, formatUSDC, Money, ZERO_MONEY } from './money';
+import { appConfig } from '../config/app';
+import { getNetworkByChainId, NetworkConfig } from '../config/network';
+import { Order, OrderRefund, OrderStatus, RefundStatus } from '../types/order';
+
+export type RefundResult =
+  | { success: true; order: Order; refund: OrderRefund }
+  | { success: false; error: string; status: number };
+
+const REFUNDABLE_STATUSES: OrderStatus[] = ['paid', 'partially_refunded'];
+
+// Refunds are serialized across all orders; they are rare and slow anyway
+let queue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function getMerchantAccount() {
+  const privateKey = process.env.MERCHANT_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('MERCHANT_PRIVATE_KEY is not configured');
+  }
+
+  const account = privateKeyToAccount(privateKey as Hex);
+  if (account.address !== appConfig.merchantAddress) {
+    throw new Error(`MERCHANT_PRIVATE_KEY does not match NEXT_PUBLIC_MERCHANT_ADDRESS (${appConfig.merchantAddress})`);
+  }
+  return account;
+}
+
+/**
+ * Total confirmed as sent back to the payer
+ */
+export function getRefundedAmount(order: Order): Money {
+  return addMoney(...(order.refunds ?? []).filter(refund => refund.status === 'completed').map(refund => refund.amount));
+}
+
+/**
+ * What the merchant wallet received for an order, and so can send back
+ */
+export function getRefundableAmount(order: Order): Money {
+  if (!order.payouts) {
+    return order.amount;
+  }
+
+  const merchant = appConfig.merchantAddress.toLowerCase();
+  return addMoney(...order.payouts.filter(payout => payout.recipient.toLowerCase() === merchant).map(payout => payout.amount));
+}
+
+/**
+ * The outcome of a sent refund transfer from its receipt, 'pending' while
+ * it has none
+ */
+async function getRefundTransferStatus(network: NetworkConfig, transactionHash: string): Promise<RefundStatus> {
+  const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: transactionHash as Hex });
+    return receipt.status === 'success' ? 'completed' : 'failed';
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return 'pending';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record how a refund ended; a completed refund moves the order's status
+ * and notifies the merchant
+ */
+async function finishRefund(order: Order, refundId: string, status: Exclude<RefundStatus, 'pending'>): Promise<Order> {
+  const refunds = (order.refunds ?? []).map(refund => (refund.id === refundId ? { ...refund, status } : refund));
+  const refunded = getRefundedAmount({ ...order, refunds });
+  const updated = (await orderRepository.update(order.id, {
+    refunds,
+    ...(refunded > ZERO_MONEY && { status: refunded >= getRefundableAmount(order) ? 'refunded' : 'partially_refunded' }),
+  }))!;
+
+  if (status === 'completed') {
+    try {
+      await webhookDispatcher.enqueue('order.refunded', updated, refundId);
+    } catch (error) {
+      console.error('❌ Failed to queue order.refunded webhook:', error);
+    }
+  }
+  return updated;
+}
+
+/**
+ * Settle an order's pending refunds that now have a receipt
+ */
+async function reconcileOrderRefunds(order: Order): Promise<Order> {
+  const network = getNetworkByChainId(order.chainId);
+  if (!network) {
+    return order;
+  }
+
+  let current = order;
+  for (const refund of order.refunds ?? []) {
+    if (refund.status !== 'pending') continue;
+
+    const status = await getRefundTransferStatus(network, refund.transactionHash);
+    if (status !== 'pending') {
+      current = await finishRefund(current, refund.id, status);
+      console.log('↩️ Refund', refund.id, 'on order', order.id, status);
+    }
+  }
+  return current;
+}
+
+/**
+ * Settle every pending refund that now has a receipt
+ */
+export function reconcilePendingRefunds(): Promise<void> {
+  return exclusive(async () => {
+    for (const order of await orderRepository.listWithPendingRefunds()) {
+      try {
+        await reconcileOrderRefunds(order);
+      } catch (error) {
+        console.error('❌ Failed to check refunds on order', order.id, error);
+      }
+    }
+  });
+}
+
+/**
+ * Refund part of an order, or everything not yet refunded when `amount`
+ * is omitted
+ */
+export function refundOrder(orderId: string, amount?: Money, reason?: string): Promise<RefundResult> {
+  return exclusive(async (): Promise<RefundResult> => {
+    const stored = await orderRepository.get(orderId);
+    if (!stored) {
+      return { success: false, error: 'Order not found', status: 404 };
+    }
+
+    let order: Order;
+    try {
+      order = await reconcileOrderRefunds(stored);
+    } catch (error) {
+      console.error('❌ Failed to check pending refunds:', error);
+      return { success: false, error: 'Could not confirm an earlier refund; try again', status: 502 };
+    }
+
+    const inFlight = order.refunds?.find(refund => refund.status === 'pending');
+    if (inFlight) {
+      return {
+        success: false,
+        error: `A refund of ${formatUSDC(inFlight.amount)} is still being confirmed: ${inFlight.transactionHash}`,
+        status: 409,
+      };
+    }
+    if (!REFUNDABLE_STATUSES.includes(order.status)) {
+      return { success: false, error: `Cannot refund an order that is ${order.status}`, status: 409 };
+    }
+
+    const refunded = getRefundedAmount(order);
+    const remaining = getRefundableAmount(order) - refunded;
+    if (order.payouts && remaining <= ZERO_MONEY) {
+      return { success: false, error: 'Nothing is left to refund from the platform share of this split order', status: 409 };
+    }
+    const refundAmount = amount ?? remaining;
+    if (refundAmount <= ZERO_MONEY) {
+      return { success: false, error: 'Refund amount must be greater than zero', status: 400 };
+    }
+    if (refundAmount > remaining) {
+      const balance = order.payouts ? 'unrefunded balance of the platform share' : 'unrefunded balance';
+      return { success: false, error: `Refund exceeds the ${balance} of ${formatUSDC(remaining)}`, status: 400 };
+    }
+
+    const network = getNetworkByChainId(order.chainId);
+    if (!network) {
+      return { success: false, error: `Unsupported chain ID: ${order.chainId}`, status: 400 };
+    }
+
+    let transactionHash: Hex;
+    try {
+      const account = getMerchantAccount();
+      const walletClient = createWalletClient({ account, chain: network.chain, transport: http() });
+      transactionHash = await walletClient.sendTransaction({
+        to: network.usdcAddress,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [getAddress(order.payer), refundAmount],
+        }),
+        value: BigInt(0),
+      });
+    } catch (error) {
+      console.error('❌ Refund transfer failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Refund transfer failed',
+        status: 502,
+      };
+    }
+
+    // Recorded before waiting so a lost receipt can't lead to a second refund
+    const refund: OrderRefund = {
+      id: randomUUID(),
+      amount: refundAmount,
+      reason,
+      transactionHash,
+      status: 'pending',
+      createdAt: Date.now(),
+    };
+    order = (await orderRepository.update(order.id, { refunds: [...(order.refunds ?? []), refund] }))!;
+
+    let succeeded: boolean;
+    try {
+      const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+      succeeded = receipt.status === 'success';
+    } catch (error) {
+      console.error('❌ Refund sent but not confirmed:', transactionHash, error);
+      return {
+        success: false,
+        error: `Refund sent but not confirmed yet: ${transactionHash}. It will be confirmed in the background.`,
+        status: 504,
+      };
+    }
+
+    const updated = await finishRefund(order, refund.id, succeeded ? 'completed' : 'failed');
+    if (!succeeded) {
+      return { success: false, error: `Refund transfer reverted: ${transactionHash}`, status: 502 };
+    }
+
+    console.log('↩️ Refunded', formatUSDC(refundAmount), 'on order', order.id, transactionHash);
+    return { success: true, order: updated, refund: { ...refund, status: 'completed' } };
+  });
+}
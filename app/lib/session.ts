@@ -0,0 +1,117 @@
+/**
+ * Session Tokens
+ *
+ * Server-side helpers for the signed session cookie issued after a
+ * successful Sign-In with Ethereum verification.
+ * The token is `base64url(payload).base64url(hmac)` so it can be checked
+ * without any server-side storage.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export const SESSION_COOKIE_NAME = 'base-account-session';
+
+// Sessions last at most one day, or less if the SIWE message expires sooner
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24;
+
+export interface SessionData {
+  address: string;
+  chainId: number;
+  issuedAt: number; // Unix milliseconds
+  expiresAt: number; // Unix milliseconds
+}
+
+let devSecret: string | null = null;
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  // Fall back to a per-process secret in development; sessions reset on restart
+  if (!devSecret) {
+    console.warn('SESSION_SECRET not set, using a temporary development secret');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Create a signed session token for the given session data
+ */
+export function createSessionToken(session: SessionData): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify a session token and return its data, or null if invalid or expired
+ */
+export function readSessionToken(token: string | undefined): SessionData | null {
+  if (!token) {
+    return null;
+  }
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as SessionData;
+    if (typeof session.address !== 'string' || session.expiresAt <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The user fields exposed to the client for a session
+ */
+export function getSessionUser(session: SessionData) {
+  return {
+    address: session.address,
+    chainId: session.chainId,
+    issuedAt: session.issuedAt,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Read the current session from an incoming request
+ */
+export function getSession(request: NextRequest): SessionData | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Cookie options for the session cookie, expiring together with the session
+ */
+export function getSessionCookieOptions(session: SessionData) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    expires: new Date(session.expiresAt),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Sign-In with Ethereum Verification
+ *
+ * Server-side verification of the SIWE message and signature returned by
+ * `wallet_connect`'s `signInWithEthereum` capability.
+ * This module handles:
+ * - Parsing the EIP-4361 message
+ * - Domain, chain ID and expiry checks
+ * - Single-use nonce consumption (see `nonceStore.ts`)
+ * - Signature verification, including ERC-1271 smart accounts and
+ *   ERC-6492 signatures from accounts that are not yet deployed
+ */
+
+import { createPublicClient, http, isAddress, isHex, type Hex } from 'viem';
+import { parseSiweMessage } from 'viem/siwe';
+import { getNetworkByChainId } from '../config/network';
+import { SessionData, SESSION_MAX_AGE_SECONDS } from './session';
+import { nonceStore, NonceConsumeResult } from './nonceStore';
+
+export interface SignInVerificationRequest {
+  address: string;
+  message: string;
+  signature: string;
+  domain: string;
+  sessionId: string | undefined; // Sign-in session the nonce was issued to
+}
+
+export type SignInErrorCode = 'invalid_message' | 'invalid_signature' | Extract<NonceConsumeResult, { success: false }>['code'];
+
+export type SignInVerificationResult =
+  | { success: true; session: SessionData }
+  | { success: false; code: SignInErrorCode; error: string };
+
+/**
+ * Verify a SIWE sign-in and build the session it grants
+ */
+export async function verifySignIn(request: SignInVerificationRequest): Promise<SignInVerificationResult> {
+  const { address, message, signature, domain, sessionId } = request;
+
+  if (!isAddress(address) || !isHex(signature)) {
+    return { success: false, code: 'invalid_message', error: 'Invalid address or signature' };
+  }
+
+  const fields = parseSiweMessage(message);
+
+  if (!fields.address || fields.address.toLowerCase() !== address.toLowerCase()) {
+    return { success: false, code: 'invalid_message', error: 'Message address does not match signer' };
+  }
+
+  if (fields.domain !== domain) {
+    return { success: false, code: 'invalid_message', error: `Message domain ${fields.domain} does not match ${domain}` };
+  }
+
+  // The client may be on either supported network (see config/network.ts)
+  const network = fields.chainId ? getNetworkByChainId(fields.chainId) : undefined;
+  if (!fields.chainId || !network) {
+    return { success: false, code: 'invalid_message', error: `Unsupported chain ID: ${fields.chainId}` };
+  }
+
+  if (!fields.nonce) {
+    return { success: false, code: 'invalid_message', error: 'Message has no nonce' };
+  }
+
+  const now = new Date();
+  if (fields.expirationTime && fields.expirationTime <= now) {
+    return { success: false, code: 'invalid_message', error: 'Sign-in message has expired' };
+  }
+  if (fields.notBefore && fields.notBefore > now) {
+    return { success: false, code: 'invalid_message', error: 'Sign-in message is not yet valid' };
+  }
+
+  try {
+    // verifySiweMessage re-validates the fields and checks the signature via
+    // ecrecover, ERC-1271 or ERC-6492 depending on the account
+    const publicClient = createPublicClient({
+      chain: network.chain,
+      transport: http(),
+    });
+    const isValid = await publicClient.verifySiweMessage({
+      message,
+      signature: signature as Hex,
+      address,
+      domain,
+      nonce: fields.nonce,
+      time: now,
+    });
+
+    if (!isValid) {
+      return { success: false, code: 'invalid_signature', error: 'Invalid signature' };
+    }
+  } catch (error) {
+    console.error('❌ SIWE signature verification failed:', error);
+    return { success: false, code: 'invalid_signature', error: 'Signature verification failed' };
+  }
+
+  // Consume the nonce last so only a correctly signed message can use it up
+  const nonceResult = await nonceStore.consume(fields.nonce, sessionId);
+  if (!nonceResult.success) {
+    return { success: false, code: nonceResult.code, error: nonceResult.error };
+  }
+
+  // Session lifetime comes from the signed message, capped at the max age
+  const issuedAt = fields.issuedAt ? Math.min(fields.issuedAt.getTime(), now.getTime()) : now.getTime();
+  const maxExpiresAt = issuedAt + SESSION_MAX_AGE_SECONDS * 1000;
+  const expiresAt = fields.expirationTime ? Math.min(fields.expirationTime.getTime(), maxExpiresAt) : maxExpiresAt;
+
+  if (expiresAt <= now.getTime()) {
+    return { success: false, code: 'invalid_message', error: 'Sign-in message is too old' };
+  }
+
+  return {
+    success: true,
+    session: {
+      address,
+      chainId: network.chain.id,
+      issuedAt,
+      expiresAt,
+    },
+  };
+}
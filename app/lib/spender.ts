@@ -0,0 +1,139 @@
+/**
+ * Server-Side Spender
+ *
+ * Holds the spender key (`SPENDER_PRIVATE_KEY`) and charges shoppers
+ * through the spend permissions they granted to `appConfig.spenderAddress`.
+ * A charge is two steps sent from the spender account:
+ * 1. The calls from `prepareSpendCallData` (approve if needed, then spend),
+ *    which pull USDC from the shopper into the spender
+ * 2. A USDC transfer from the spender to the merchant
+ * If step 2 fails after step 1 went through, the USDC is left with the
+ * spender and the result says so (`stranded`) so it can be forwarded.
+ */
+
+import { createPublicClient, createWalletClient, encodeFunctionData, erc20Abi, http, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { prepareSpendCallData } from '@base-org/account/spend-permission';
+import { appConfig } from '../config/app';
+import { NetworkConfig } from '../config/network';
+import { Money } from './money';
+import { StrandedCharge } from '../types/order';
+
+export type SpendPermission = Parameters<typeof prepareSpendCallData>[0];
+
+export interface ChargeRequest {
+  permission: SpendPermission;
+  amount: Money;
+  payer: string; // Signed-in account the permission must belong to
+  network: NetworkConfig;
+}
+
+export type ChargeResult =
+  | { success: true; transactionHash: Hex; blockNumber: bigint; spendTransactionHashes: Hex[] }
+  | { success: false; error: string; stranded?: StrandedCharge };
+
+function getSpenderAccount() {
+  const privateKey = process.env.SPENDER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('SPENDER_PRIVATE_KEY is not configured');
+  }
+
+  const account = privateKeyToAccount(privateKey as Hex);
+  if (account.address !== appConfig.spenderAddress) {
+    throw new Error(`SPENDER_PRIVATE_KEY does not match NEXT_PUBLIC_SPENDER_ADDRESS (${appConfig.spenderAddress})`);
+  }
+  return account;
+}
+
+/**
+ * Check that a client-supplied permission is one we are allowed to charge
+ */
+function validatePermission({ permission, payer, network }: ChargeRequest): string | null {
+  const { account, spender, token } = permission.permission;
+
+  if (account.toLowerCase() !== payer.toLowerCase()) {
+    return 'Spend permission does not belong to the signed-in account';
+  }
+  if (spender.toLowerCase() !== appConfig.spenderAddress.toLowerCase()) {
+    return 'Spend permission is for a different spender';
+  }
+  if (token.toLowerCase() !== network.usdcAddress.toLowerCase()) {
+    return 'Spend permission is not for USDC';
+  }
+  if (permission.chainId !== network.chain.id) {
+    return `Spend permission is for chain ${permission.chainId}, expected ${network.chain.id}`;
+  }
+  return null;
+}
+
+/**
+ * Charge the shopper through their spend permission and forward the USDC
+ * to the merchant
+ */
+export async function chargeSpendPermission(request: ChargeRequest): Promise<ChargeResult> {
+  const validationError = validatePermission(request);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const { permission, amount, network } = request;
+  const spendTransactionHashes: Hex[] = [];
+  let spent = false;
+
+  try {
+    const account = getSpenderAccount();
+    const walletClient = createWalletClient({ account, chain: network.chain, transport: http() });
+    const publicClient = createPublicClient({ chain: network.chain, transport: http() });
+
+    // Fails if the permission is revoked, expired or has too little remaining
+    const spendCalls = await prepareSpendCallData(permission, amount);
+
+    // Calls must land in order: approveWithSignature before spend
+    for (const call of spendCalls) {
+      const hash = await walletClient.sendTransaction({ to: call.to, data: call.data, value: BigInt(0) });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        return { success: false, error: `Spend transaction reverted: ${hash}` };
+      }
+      spendTransactionHashes.push(hash);
+    }
+
+    spent = true;
+    console.log('✅ Spent from permission:', spendTransactionHashes);
+
+    const transactionHash = await walletClient.sendTransaction({
+      to: network.usdcAddress,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [appConfig.merchantAddress, amount],
+      }),
+      value: BigInt(0),
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+    if (receipt.status !== 'success') {
+      console.error('❌ Merchant transfer reverted after spend:', transactionHash);
+      return {
+        success: false,
+        error: `Payment was taken but the merchant transfer reverted: ${transactionHash}`,
+        stranded: { amount, spendTransactionHashes, transferTransactionHash: transactionHash },
+      };
+    }
+
+    console.log('✅ Forwarded payment to merchant:', transactionHash);
+    return { success: true, transactionHash, blockNumber: receipt.blockNumber, spendTransactionHashes };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Spend permission charge failed';
+    if (spent) {
+      console.error('❌ Merchant transfer failed after spend:', error);
+      return {
+        success: false,
+        error: `Payment was taken but not forwarded to the merchant: ${message}`,
+        stranded: { amount, spendTransactionHashes },
+      };
+    }
+
+    console.error('❌ Spend permission charge failed:', error);
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Key-Value Storage
+ *
+ * Minimal async key-value stores used by server-side modules.
+ * This module provides:
+ * - An in-memory store (lost on restart, useful for serverless and testing)
+ * - A JSON file store under `DATA_DIR` (defaults to `.data/`)
+ * - `createStore()` which picks the backend from `STORAGE_BACKEND`
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseJson, stringifyJson } from './json';
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<[string, T][]>;
+}
+
+export type StorageBackend = 'memory' | 'file';
+
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private data = new Map<string, T>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async entries(): Promise<[string, T][]> {
+    return Array.from(this.data.entries());
+  }
+}
+
+export class JsonFileStore<T> implements KeyValueStore<T> {
+  private filePath: string;
+  // Shared by concurrent first reads so the file is only loaded once
+  private loading: Promise<Record<string, T>> | null = null;
+  // Serializes writes so concurrent requests don't clobber each other
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async read(): Promise<Record<string, T>> {
+    try {
+      return parseJson<Record<string, T>>(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load store ${this.filePath}:`, error);
+      }
+      return {};
+    }
+  }
+
+  private load(): Promise<Record<string, T>> {
+    this.loading ??= this.read();
+    return this.loading;
+  }
+
+  /**
+   * Write the whole map; a failed write rejects for its caller but later
+   * writes still run
+   */
+  private persist(data: Record<string, T>): Promise<void> {
+    const write = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, stringifyJson(data, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.queue = write.catch(error => {
+      console.error(`Failed to write store ${this.filePath}:`, error);
+    });
+    return write;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const data = await this.load();
+    return data[key];
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const data = await this.load();
+    data[key] = value;
+    await this.persist(data);
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this.load();
+    delete data[key];
+    await this.persist(data);
+  }
+
+  async entries(): Promise<[string, T][]> {
+    return Object.entries(await this.load());
+  }
+}
+
+// Stores are cached on globalThis so every route shares one instance,
+// including across hot reloads in development
+const globalStores = globalThis as typeof globalThis & {
+  __keyValueStores?: Map<string, KeyValueStore<unknown>>;
+};
+
+/**
+ * Get the named store, creating it with the configured backend on first use
+ */
+export function createStore<T>(
+  name: string,
+  backend: StorageBackend = (process.env.STORAGE_BACKEND as StorageBackend) || 'file'
+): KeyValueStore<T> {
+  const stores = (globalStores.__keyValueStores ??= new Map());
+  const existing = stores.get(name);
+  if (existing) {
+    return existing as KeyValueStore<T>;
+  }
+
+  let store: KeyValueStore<T>;
+  if (backend === 'memory') {
+    store = new MemoryStore<T>();
+  } else {
+    const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+    store = new JsonFileStore<T>(path.join(dataDir, `${name}.json`));
+  }
+
+  stores.set(name, store as KeyValueStore<unknown>);
+  return store;
+}
@@ -0,0 +1,133 @@
+/**
+ * Subscription Billing
+ *
+ * Charges subscriptions through the spender (see `spender.ts`) once per
+ * billing period. `chargeDue` is run periodically (see `backgroundJobs.ts`).
+ * A failed charge puts the subscription 'past_due' and is retried on a
+ * dunning schedule; once every retry has failed the subscription is
+ * canceled. Each subscription's spend permission allows exactly one charge
+ * per period, so a period can never be billed twice.
+ */
+
+import { randomUUID } from 'crypto';
+import { chargeSpendPermission } from './spender';
+import { alignPeriodStart, DAY_MS, PERIOD_START_GRACE_MS, subscriptionRepository } from './subscriptionRepository';
+import { formatUSDC } from './money';
+import { getNetworkByChainId } from '../config/network';
+import { Subscription, SubscriptionCharge } from '../types/subscription';
+
+// Delays before each retry of a failed charge; the last failure cancels
+export const DUNNING_RETRY_DELAYS_MS = [60 * 60 * 1000, 6 * 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+
+export type ChargeSubscriptionResult =
+  | { success: true; charge: SubscriptionCharge }
+  | { success: false; charge: SubscriptionCharge; error: string; stranded?: boolean };
+
+/**
+ * Charge one period of a subscription through its spend permission
+ */
+export async function chargeSubscriptionPeriod(
+  subscription: Pick<Subscription, 'permission' | 'price' | 'subscriber' | 'chainId'>,
+  periodStart: number
+): Promise<ChargeSubscriptionResult> {
+  const base = { id: randomUUID(), amount: subscription.price, periodStart, createdAt: Date.now() };
+
+  const network = getNetworkByChainId(subscription.chainId);
+  if (!network) {
+    const error = `Unsupported chain ID: ${subscription.chainId}`;
+    return { success: false, error, charge: { ...base, status: 'failed', error } };
+  }
+
+  const result = await chargeSpendPermission({
+    permission: subscription.permission,
+    amount: subscription.price,
+    payer: subscription.subscriber,
+    network,
+  });
+  if (!result.success && result.stranded) {
+    return {
+      success: false,
+      error: result.error,
+      stranded: true,
+      charge: { ...base, status: 'stranded', error: result.error, stranded: result.stranded },
+    };
+  }
+  if (!result.success) {
+    return { success: false, error: result.error, charge: { ...base, status: 'failed', error: result.error } };
+  }
+  return { success: true, charge: { ...base, status: 'paid', transactionHash: result.transactionHash } };
+}
+
+export class SubscriptionBilling {
+  // Serializes runs so a period is never charged twice at once
+  private running: Promise<void> | null = null;
+
+  /**
+   * Bill the current period; returns the changes to store
+   */
+  private async bill(subscription: Subscription): Promise<Partial<Subscription>> {
+    const periodStart = alignPeriodStart(subscription.currentPeriodStart, subscription.intervalDays);
+    const failedAttempts = periodStart === subscription.currentPeriodStart ? subscription.failedAttempts : 0;
+
+    const result = await chargeSubscriptionPeriod(subscription, periodStart);
+    const charges = [...subscription.charges, result.charge];
+
+    // A stranded charge was still taken from the subscriber, so the period is
+    // paid; the USDC waits with the spender for recovery instead of dunning
+    if (result.success || result.stranded) {
+      const nextPeriodStart = periodStart + subscription.intervalDays * DAY_MS;
+      if (result.success) {
+        console.log('🔁 Charged subscription', subscription.id, formatUSDC(subscription.price));
+      } else {
+        console.error('❌ Subscription charge stranded with the spender:', subscription.id, result.error);
+      }
+      return {
+        charges,
+        status: 'active',
+        failedAttempts: 0,
+        currentPeriodStart: nextPeriodStart,
+        nextChargeAt: nextPeriodStart + PERIOD_START_GRACE_MS,
+      };
+    }
+
+    const failure = { charges, failedAttempts: failedAttempts + 1, currentPeriodStart: periodStart };
+    if (failure.failedAttempts > DUNNING_RETRY_DELAYS_MS.length) {
+      console.error('❌ Subscription canceled after failed charges:', subscription.id, result.error);
+      return { ...failure, status: 'canceled', cancelReason: `Payment failed: ${result.error}` };
+    }
+
+    const delay = DUNNING_RETRY_DELAYS_MS[failure.failedAttempts - 1];
+    console.warn(`⚠️ Subscription ${subscription.id} charge failed (${result.error}), retrying in ${delay / 60000} min`);
+    return { ...failure, status: 'past_due', nextChargeAt: Date.now() + delay };
+  }
+
+  private async runDue(): Promise<void> {
+    for (const due of await subscriptionRepository.listDue()) {
+      // Re-read in case the shopper paused or canceled since listing
+      const subscription = await subscriptionRepository.get(due.id);
+      if (!subscription || (subscription.status !== 'active' && subscription.status !== 'past_due')) {
+        continue;
+      }
+      const { status, ...changes } = await this.bill(subscription);
+
+      // Keep a pause or cancel made while the charge was in flight
+      const latest = await subscriptionRepository.get(subscription.id);
+      const keepStatus = latest?.status === 'paused' || latest?.status === 'canceled';
+      await subscriptionRepository.update(subscription.id, keepStatus ? changes : { ...changes, status });
+    }
+  }
+
+  /**
+   * Charge every subscription that is due
+   */
+  chargeDue(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runDue().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+}
+
+export const subscriptionBilling = new SubscriptionBilling();
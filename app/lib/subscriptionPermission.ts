@@ -0,0 +1,61 @@
+/**
+ * Subscription Permissions
+ *
+ * Each subscription is charged through its own spend permission, granted
+ * with the plan price as the allowance and the plan interval as the period.
+ * Its `extraData` carries a `subscription:<planId>` tag so one-tap checkout
+ * never spends from it and the server can tell which plan it was granted
+ * for. Shared by the client, when requesting the permission, and the server,
+ * before accepting it.
+ */
+
+import { hexToString, stringToHex } from 'viem';
+import type { SpendPermission } from './spender';
+import { formatUSDC } from './money';
+import { SubscriptionPlan } from '../types/subscription';
+
+const TAG_PREFIX = 'subscription:';
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * `extraData` for a plan's spend permission
+ */
+export function encodeSubscriptionTag(planId: string): string {
+  return stringToHex(`${TAG_PREFIX}${planId}`);
+}
+
+/**
+ * The plan a permission was granted for, or null for ordinary permissions
+ */
+export function getSubscriptionPlanId(permission: SpendPermission): string | null {
+  const { extraData } = permission.permission;
+  if (!extraData || extraData === '0x') {
+    return null;
+  }
+
+  try {
+    const tag = hexToString(extraData as `0x${string}`);
+    return tag.startsWith(TAG_PREFIX) ? tag.slice(TAG_PREFIX.length) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a permission's terms match the plan it is meant to pay for
+ */
+export function validateSubscriptionPermission(permission: SpendPermission, plan: SubscriptionPlan): string | null {
+  const { allowance, period } = permission.permission;
+
+  if (getSubscriptionPlanId(permission) !== plan.id) {
+    return `Spend permission was not granted for ${plan.name}`;
+  }
+  if (BigInt(allowance) < plan.price) {
+    return `Spend permission allowance is below the plan price of ${formatUSDC(plan.price)}`;
+  }
+  if (Number(period) !== plan.intervalDays * SECONDS_PER_DAY) {
+    return `Spend permission period must be ${plan.intervalDays} days`;
+  }
+  return null;
+}
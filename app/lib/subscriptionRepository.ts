@@ -0,0 +1,110 @@
+/**
+ * Subscription Repository
+ *
+ * Persists subscriptions in a pluggable `KeyValueStore` (see `storage.ts`).
+ * A subscription is created once its first period has been charged, then
+ * billed every interval by `subscriptionBilling.ts`.
+ */
+
+import { randomUUID } from 'crypto';
+import { createStore, KeyValueStore } from './storage';
+import type { SpendPermission } from './spender';
+import { Subscription, SubscriptionCharge, SubscriptionPlan } from '../types/subscription';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Charge a little after the permission's next period starts onchain
+export const PERIOD_START_GRACE_MS = 60 * 1000;
+
+/**
+ * Move an unpaid period start forward to the period containing `now`.
+ * A spend permission's allowance does not carry over, so periods missed
+ * while paused or unbilled can't be charged and are skipped.
+ */
+export function alignPeriodStart(periodStart: number, intervalDays: number, now = Date.now()): number {
+  const interval = intervalDays * DAY_MS;
+  const missed = Math.max(0, Math.floor((now - periodStart) / interval));
+  return periodStart + missed * interval;
+}
+
+export class SubscriptionRepository {
+  private store: KeyValueStore<Subscription>;
+
+  constructor(store: KeyValueStore<Subscription>) {
+    this.store = store;
+  }
+
+  /**
+   * Record a subscription whose first period was paid by `firstCharge`
+   */
+  async create(
+    plan: SubscriptionPlan,
+    subscriber: string,
+    chainId: number,
+    permission: SpendPermission,
+    firstCharge: SubscriptionCharge
+  ): Promise<Subscription> {
+    const now = Date.now();
+    const nextPeriodStart = firstCharge.periodStart + plan.intervalDays * DAY_MS;
+    const subscription: Subscription = {
+      id: randomUUID(),
+      planId: plan.id,
+      subscriber,
+      chainId,
+      permission,
+      price: plan.price,
+      intervalDays: plan.intervalDays,
+      status: 'active',
+      currentPeriodStart: nextPeriodStart,
+      nextChargeAt: nextPeriodStart + PERIOD_START_GRACE_MS,
+      failedAttempts: 0,
+      charges: [firstCharge],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async get(id: string): Promise<Subscription | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Apply changes to a subscription and bump its update time
+   */
+  async update(id: string, changes: Partial<Omit<Subscription, 'id' | 'createdAt'>>): Promise<Subscription | undefined> {
+    const subscription = await this.store.get(id);
+    if (!subscription) {
+      return undefined;
+    }
+
+    const updated: Subscription = { ...subscription, ...changes, updatedAt: Date.now() };
+    await this.store.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * All subscriptions of an account, newest first
+   */
+  async listBySubscriber(subscriber: string): Promise<Subscription[]> {
+    const subscriptions = (await this.store.entries())
+      .map(([, subscription]) => subscription)
+      .filter(subscription => subscription.subscriber.toLowerCase() === subscriber.toLowerCase());
+    return subscriptions.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Active and past-due subscriptions with a charge due at `now`
+   */
+  async listDue(now = Date.now()): Promise<Subscription[]> {
+    return (await this.store.entries())
+      .map(([, subscription]) => subscription)
+      .filter(subscription =>
+        (subscription.status === 'active' || subscription.status === 'past_due') && subscription.nextChargeAt <= now
+      );
+  }
+}
+
+export const subscriptionRepository = new SubscriptionRepository(createStore<Subscription>('subscriptions'));
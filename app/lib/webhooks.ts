@@ -0,0 +1,232 @@
+/**
+ * Merchant Webhooks
+ *
+ * Notifies the merchant's server (`MERCHANT_WEBHOOK_URL`) when an order is
+ * paid or refunded. Each delivery is signed with `MERCHANT_WEBHOOK_SECRET`, retried with
+ * exponential backoff until it is acknowledged with a 2xx response, and
+ * logged with every attempt in a `KeyValueStore` (see `storage.ts`).
+ *
+ * Signature: `X-Webhook-Signature: sha256=<hex>` where the HMAC-SHA256 is
+ * taken over `<X-Webhook-Timestamp>.<raw body>`. Receivers should recompute
+ * it and reject stale timestamps to prevent replays.
+ */
+
+import { createHmac } from 'crypto';
+import { createStore, KeyValueStore } from './storage';
+import { toDecimalString } from './money';
+import { Order } from '../types/order';
+
+export type WebhookEventType = 'order.paid' | 'order.refunded';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  at: number; // Unix milliseconds
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string; // Also sent as X-Webhook-Id so receivers can drop duplicates
+  event: WebhookEventType;
+  orderId: string;
+  url: string;
+  body: string; // Exact JSON sent, so every retry carries the same payload
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+// Give up after this many attempts (about 2 hours of retries)
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const INITIAL_RETRY_DELAY_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+interface WebhookConfig {
+  url: string;
+  secret: string;
+}
+
+/**
+ * The merchant endpoint, or null when webhooks are not configured
+ */
+function getWebhookConfig(): WebhookConfig | null {
+  const url = process.env.MERCHANT_WEBHOOK_URL;
+  if (!url) {
+    return null;
+  }
+
+  const secret = process.env.MERCHANT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('MERCHANT_WEBHOOK_SECRET must be set when MERCHANT_WEBHOOK_URL is configured');
+  }
+  return { url, secret };
+}
+
+/**
+ * HMAC-SHA256 signature of a webhook body, hex encoded
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Public shape of an order in webhook payloads; amounts are decimal USDC strings
+ */
+function toWebhookOrder(order: Order) {
+  return {
+    id: order.id,
+    status: order.status,
+    amount: toDecimalString(order.amount),
+    currency: 'USDC',
+    discount: order.discount !== undefined ? toDecimalString(order.discount) : undefined,
+    promotionCode: order.promotionCode,
+    payouts: order.payouts?.map(leg => ({
+      role: leg.role,
+      recipient: leg.recipient,
+      amount: toDecimalString(leg.amount),
+    })),
+    refunds: order.refunds?.map(refund => ({
+      id: refund.id,
+      amount: toDecimalString(refund.amount),
+      reason: refund.reason,
+      transactionHash: refund.transactionHash,
+      status: refund.status,
+      createdAt: new Date(refund.createdAt).toISOString(),
+    })),
+    lines: order.lines.map(line => ({
+      productId: line.productId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: toDecimalString(line.unitPrice),
+    })),
+    payer: order.payer,
+    paidFrom: order.paidFrom,
+    payerInfo: order.payerInfo,
+    settlementIssues: order.settlementIssues,
+    chainId: order.chainId,
+    paymentMethod: order.paymentMethod,
+    paymentId: order.paymentId,
+    transactionHash: order.transactionHash,
+    createdAt: new Date(order.createdAt).toISOString(),
+    updatedAt: new Date(order.updatedAt).toISOString(),
+  };
+}
+
+export class WebhookDispatcher {
+  private store: KeyValueStore<WebhookDelivery>;
+
+  constructor(store: KeyValueStore<WebhookDelivery>) {
+    this.store = store;
+  }
+
+  /**
+   * Queue an event for an order; queuing the same event twice is a no-op.
+   * Events that can happen more than once per order pass a distinct `key`.
+   */
+  async enqueue(event: WebhookEventType, order: Order, key?: string): Promise<WebhookDelivery | null> {
+    const config = getWebhookConfig();
+    if (!config) {
+      return null;
+    }
+
+    const id = key ? `${order.id}:${event}:${key}` : `${order.id}:${event}`;
+    const existing = await this.store.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      id,
+      event,
+      orderId: order.id,
+      url: config.url,
+      body: JSON.stringify({ id, type: event, createdAt: new Date(now).toISOString(), data: { order: toWebhookOrder(order) } }),
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+    await this.store.set(id, delivery);
+    console.log('📨 Queued webhook:', id);
+    return delivery;
+  }
+
+  /**
+   * Send one delivery attempt and schedule the next one if it failed
+   */
+  private async attempt(delivery: WebhookDelivery, secret: string): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempt: WebhookAttempt = { at: Date.now() };
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp.toString(),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(delivery.body, timestamp, secret)}`,
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      attempt.statusCode = response.status;
+      if (!response.ok) {
+        attempt.error = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = error instanceof Error ? error.message : 'Delivery failed';
+    }
+
+    const attempts = [...delivery.attempts, attempt];
+    if (!attempt.error) {
+      console.log('✅ Webhook delivered:', delivery.id);
+      return { ...delivery, attempts, status: 'delivered' };
+    }
+
+    if (attempts.length >= MAX_WEBHOOK_ATTEMPTS) {
+      console.error('❌ Webhook failed permanently:', delivery.id, attempt.error);
+      return { ...delivery, attempts, status: 'failed' };
+    }
+
+    const delay = INITIAL_RETRY_DELAY_MS * 2 ** (attempts.length - 1);
+    console.warn(`⚠️ Webhook ${delivery.id} failed (${attempt.error}), retrying in ${delay / 1000}s`);
+    return { ...delivery, attempts, nextAttemptAt: Date.now() + delay };
+  }
+
+  /**
+   * Attempt every pending delivery that is due
+   */
+  async deliverDue(): Promise<void> {
+    const due = (await this.store.entries())
+      .map(([, delivery]) => delivery)
+      .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt <= Date.now());
+    if (due.length === 0) {
+      return;
+    }
+
+    const config = getWebhookConfig();
+    if (!config) {
+      return;
+    }
+
+    for (const delivery of due) {
+      await this.store.set(delivery.id, await this.attempt(delivery, config.secret));
+    }
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  async list(): Promise<WebhookDelivery[]> {
+    return (await this.store.entries())
+      .map(([, delivery]) => delivery)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher(createStore<WebhookDelivery>('webhook-deliveries'));
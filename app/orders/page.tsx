@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * Order History Page
+ *
+ * Lists the signed-in user's orders with status and explorer links.
+ */
+
+import { Header } from "../components/Header";
+import { OrderHistory } from "../components/OrderHistory";
+import { useAuth } from "../contexts/AuthContext";
+
+export default function OrdersPage() {
+  const { isAuthenticated } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          {isAuthenticated ? (
+            <OrderHistory />
+          ) : (
+            <p className="text-center text-xl text-gray-600">Sign in with your Base Account to see your orders</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
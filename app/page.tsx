@@ -14,18 +14,32 @@
 
 import { Header } from "./components/Header";
 import { useAuth } from "./contexts/AuthContext";
+import { useBaseAccount } from "./contexts/BaseAccountContext";
 import { usePayment } from "./contexts/PaymentContext";
 import { ProductDisplay } from "./components/ProductDisplay";
 import { getFeaturedProduct } from "./data/products";
+import { appConfig } from "./config/app";
+import { getPermissionExpiry, validatePermissionOptions, SpendPermissionOptions } from "./services/spendPermissionService";
+import { formatMoney, formatUSDC, parseMoney, toDecimalString } from "./lib/money";
 import { useState, useEffect } from "react";
 import { SignInWithBaseButton } from '@base-org/account-ui/react';
 
 export default function Home() {
   // Authentication state from AuthContext
   const { isAuthenticated, signIn } = useAuth();
+
+  // Selected network (Base Mainnet or Base Sepolia)
+  const { network } = useBaseAccount();
   
   // Payment and spend permission state from PaymentContext
-  const { isPaymentReady, hasSpendPermission, requestSpendPermission, isRequestingPermission } = usePayment();
+  const {
+    isPaymentReady,
+    hasSpendPermission,
+    spendPermission,
+    isCheckingPermission,
+    requestSpendPermission,
+    isRequestingPermission,
+  } = usePayment();
   
   // Current step in the tutorial flow (1: Auth, 2: Permissions, 3: Purchase)
   const [currentStep, setCurrentStep] = useState(1);
@@ -33,6 +47,31 @@ export default function Home() {
   // Get the featured product for the demo
   const product = getFeaturedProduct();
 
+  // Spend permission terms chosen by the shopper, starting from the configured defaults
+  const [allowanceInput, setAllowanceInput] = useState(toDecimalString(appConfig.spendAllowance));
+  const [periodInput, setPeriodInput] = useState(appConfig.spendPeriodDays.toString());
+
+  // Parse the inputs into request options, or an error to show instead
+  let permissionOptions: SpendPermissionOptions | null = null;
+  let permissionOptionsError: string | null = null;
+  try {
+    permissionOptions = {
+      allowance: parseMoney(allowanceInput),
+      periodInDays: Number(periodInput),
+    };
+    permissionOptionsError = validatePermissionOptions(permissionOptions);
+  } catch {
+    permissionOptionsError = 'Enter a valid USDC amount';
+  }
+
+  const minAllowance = toDecimalString(appConfig.spendAllowanceMin);
+  const maxAllowance = toDecimalString(appConfig.spendAllowanceMax);
+  const allowanceLabel = permissionOptions && !permissionOptionsError
+    ? formatUSDC(permissionOptions.allowance)
+    : '—';
+  const periodLabel = Number(periodInput) === 1 ? 'per day' : `every ${periodInput} days`;
+  const expiryLabel = getPermissionExpiry().toLocaleDateString();
+
   /**
    * Determine the current step based on authentication and permission state
    * This creates a smooth tutorial flow that guides users through each step
@@ -56,7 +95,9 @@ export default function Home() {
    * This is a critical step that allows automated payments without additional signatures
    */
   const handleSetSpendPermissions = async () => {
-    const success = await requestSpendPermission();
+    if (!permissionOptions || permissionOptionsError) return;
+
+    const success = await requestSpendPermission(permissionOptions);
     if (success) {
       setCurrentStep(3); // Move to purchase step
     } else {
@@ -146,41 +187,79 @@ export default function Home() {
                     <span className="text-gray-600">Token:</span>
                     <span className="font-mono text-sm">USDC</span>
                   </div>
+                  <div>
+                    <label htmlFor="allowance" className="flex justify-between text-gray-600 mb-1">
+                      <span>Allowance (USDC):</span>
+                      <span className="text-xs text-gray-400">{minAllowance} – {maxAllowance}</span>
+                    </label>
+                    <input
+                      id="allowance"
+                      type="number"
+                      min={minAllowance}
+                      max={maxAllowance}
+                      step="0.01"
+                      value={allowanceInput}
+                      onChange={(e) => setAllowanceInput(e.target.value)}
+                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="period" className="flex justify-between text-gray-600 mb-1">
+                      <span>Period (days):</span>
+                      <span className="text-xs text-gray-400">{appConfig.spendPeriodMinDays} – {appConfig.spendPeriodMaxDays}</span>
+                    </label>
+                    <input
+                      id="period"
+                      type="number"
+                      min={appConfig.spendPeriodMinDays}
+                      max={appConfig.spendPeriodMaxDays}
+                      step="1"
+                      value={periodInput}
+                      onChange={(e) => setPeriodInput(e.target.value)}
+                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+                    />
+                  </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Allowance:</span>
-                    <span className="font-semibold text-blue-600">$20.00 USDC</span>
+                    <span className="text-gray-600">Per-period cap:</span>
+                    <span className="font-semibold text-blue-600">{allowanceLabel} {!permissionOptionsError && periodLabel}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Period:</span>
-                    <span className="text-gray-900">Daily reset</span>
+                    <span className="text-gray-600">Expires:</span>
+                    <span className="text-gray-900">{expiryLabel}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Network:</span>
-                    <span className="text-gray-900">Base Mainnet</span>
+                    <span className="text-gray-900">{network.label}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Spender:</span>
                     <span className="font-mono text-xs text-gray-500">Base Commerce</span>
                   </div>
                 </div>
-                <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-                  <p className="text-sm text-blue-800">
-                    This allows Base Commerce to automatically process payments up to $20 USDC without requiring additional signatures.
-                  </p>
-                </div>
+                {permissionOptionsError ? (
+                  <div className="mt-6 p-4 bg-red-50 rounded-lg">
+                    <p className="text-sm text-red-800">{permissionOptionsError}</p>
+                  </div>
+                ) : (
+                  <div className="mt-6 p-4 bg-blue-50 rounded-lg">
+                    <p className="text-sm text-blue-800">
+                      This allows Base Commerce to automatically process payments up to {allowanceLabel} {periodLabel} until {expiryLabel} without requiring additional signatures.
+                    </p>
+                  </div>
+                )}
               </div>
               <button
                 onClick={handleSetSpendPermissions}
-                disabled={isRequestingPermission}
+                disabled={isRequestingPermission || isCheckingPermission || !!permissionOptionsError}
                 className="bg-blue-600 text-white px-8 py-4 rounded-xl text-lg font-semibold hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
               >
-                {isRequestingPermission ? (
+                {isRequestingPermission || isCheckingPermission ? (
                   <>
                     <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white inline" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Requesting Permission...
+                    {isCheckingPermission ? 'Checking Existing Permissions...' : 'Requesting Permission...'}
                   </>
                 ) : (
                   'Set Spend Permissions'
@@ -199,6 +278,13 @@ export default function Home() {
                 </div>
                 <h1 className="text-3xl font-bold text-gray-900 mb-4">Ready to Purchase!</h1>
                 <p className="text-xl text-gray-600">You&apos;re all set to make secure payments with Base Pay</p>
+                {spendPermission && (
+                  <p className="mt-4 text-sm text-gray-500">
+                    Spend permission: ${formatMoney(spendPermission.remainingSpend)} of{' '}
+                    {formatUSDC(spendPermission.totalAllowance)} remaining this period,
+                    resets {spendPermission.periodEnd.toLocaleString()}
+                  </p>
+                )}
               </div>
               
               <ProductDisplay 
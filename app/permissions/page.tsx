@@ -0,0 +1,37 @@
+'use client';
+
+/**
+ * Manage Permissions Page
+ *
+ * Shows the signed-in user's spend permissions and lets them revoke any
+ * they no longer want Base Commerce to use, and sets up the Orders
+ * sub-account checkout can pay from.
+ */
+
+import { Header } from "../components/Header";
+import { ManagePermissions } from "../components/ManagePermissions";
+import { OrdersSubAccount } from "../components/OrdersSubAccount";
+import { useAuth } from "../contexts/AuthContext";
+
+export default function PermissionsPage() {
+  const { isAuthenticated } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          {isAuthenticated ? (
+            <div className="space-y-8">
+              <ManagePermissions />
+              <OrdersSubAccount />
+            </div>
+          ) : (
+            <p className="text-center text-xl text-gray-600">Sign in with your Base Account to manage spend permissions</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
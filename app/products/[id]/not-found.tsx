@@ -0,0 +1,20 @@
+import Link from "next/link";
+import { Header } from "../../components/Header";
+
+export default function ProductNotFound() {
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">Product not found</h1>
+          <p className="text-xl text-gray-600 mb-8">This product doesn&apos;t exist or is no longer available.</p>
+          <Link href="/products" className="text-blue-600 hover:text-blue-700 font-medium">
+            Browse all products
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Product Page
+ *
+ * Renders a single catalog product, or a 404 when the ID is unknown.
+ */
+
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Header } from "../../components/Header";
+import { ProductDisplay } from "../../components/ProductDisplay";
+import { getProductById, mockProducts } from "../../data/products";
+
+interface ProductPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export function generateStaticParams() {
+  return mockProducts.map(product => ({ id: product.id }));
+}
+
+export async function generateMetadata({ params }: ProductPageProps) {
+  const { id } = await params;
+  const product = getProductById(id);
+  return { title: product ? `${product.name} - Base Commerce` : 'Product not found' };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { id } = await params;
+  const product = getProductById(id);
+  if (!product) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Link href="/products" className="text-sm text-blue-600 hover:text-blue-700">
+            ← All products
+          </Link>
+          <div className="mt-8">
+            <ProductDisplay product={product} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
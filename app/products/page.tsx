@@ -0,0 +1,25 @@
+'use client';
+
+/**
+ * Product Catalog Page
+ *
+ * Lists every product with category filters and search.
+ */
+
+import { Header } from "../components/Header";
+import { ProductGrid } from "../components/ProductGrid";
+
+export default function ProductsPage() {
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-3xl font-bold text-gray-900 mb-8">Products</h1>
+          <ProductGrid />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { numberToHex } from 'viem';
+import { SubAccount } from '../contexts/SubAccountContext';
+import { Money, ZERO_MONEY, isMoney, parseMoney } from '../lib/money';
+import { parseJson, stringifyJson } from '../lib/json';
+import { encodeUSDCTransfer } from '../lib/payouts';
+import { pollCallsStatus } from '../lib/paymentStatus';
+import { Order } from '../types/order';
+
+// localStorage key for sub-account payments not confirmed at checkout
+const PENDING_SPENDS_STORAGE_KEY = 'autoSpendPending';
+
+export interface AutoSpendConfig {
+  enabled: boolean;
+  subAccountId: string;
+  maxAmount: Money;
+  requiresApproval: boolean;
+  approvalThreshold: Money;
+}
+
+export interface AutoSpendResult {
+  success: boolean;
+  callsId?: string;
+  transactionHash?: string;
+  pending?: boolean; // Sent, but not confirmed before polling stopped
+  error?: string;
+  usedSubAccount?: SubAccount;
+}
+
+// A sub-account payment for an order whose outcome was not known at
+// checkout; it counts toward the day's spend once the order is paid
+export interface PendingAutoSpend {
+  orderId: string;
+  subAccountId: string;
+  amount: Money;
+}
+
+export class AutoSpendService {
+  private config: AutoSpendConfig | null = null;
+
+  constructor() {
+    this.loadConfig();
+  }
+
+  private loadConfig(): void {
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem('autoSpendConfig');
+      if (stored) {
+        try {
+          const config = parseJson<AutoSpendConfig>(stored);
+          // Configs saved before amounts were Money hold plain numbers
+          this.config = isMoney(config.maxAmount) && isMoney(config.approvalThreshold) ? config : null;
+        } catch (error) {
+          console.error('Failed to load auto-spend config:', error);
+        }
+      }
+    }
+  }
+
+  private saveConfig(): void {
+    if (typeof window !== 'undefined' && this.config) {
+      localStorage.setItem('autoSpendConfig', stringifyJson(this.config));
+    }
+  }
+
+  setConfig(config: AutoSpendConfig): void {
+    this.config = config;
+    this.saveConfig();
+  }
+
+  getConfig(): AutoSpendConfig | null {
+    return this.config;
+  }
+
+  isEnabled(): boolean {
+    return this.config?.enabled || false;
+  }
+
+  canAutoSpend(amount: Money, subAccount: SubAccount): boolean {
+    if (!this.config?.enabled || !subAccount.isActive) {
+      return false;
+    }
+
+    // Check if amount is within sub-account limits
+    const remainingToday = subAccount.dailySpendLimit - subAccount.totalSpentToday;
+    if (remainingToday < amount) {
+      return false;
+    }
+
+    // Check if amount requires approval
+    if (this.config.requiresApproval && amount > this.config.approvalThreshold) {
+      return false;
+    }
+
+    // Check if amount is within max auto-spend limit
+    if (amount > this.config.maxAmount) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pay from a sub-account. With an `orderId` the batch is registered with
+   * the server as soon as it is sent, so the order settles even if the
+   * outcome isn't known before polling stops.
+   */
+  async processAutoSpend(
+    amount: Money,
+    recipientAddress: string,
+    subAccount: SubAccount,
+    paymentService: any,
+    orderId?: string
+  ): Promise<AutoSpendResult> {
+    try {
+      console.log('🔄 Processing auto-spend from sub-account:', {
+        subAccount: subAccount.name,
+        amount,
+        recipientAddress,
+      });
+
+      if (!this.canAutoSpend(amount, subAccount)) {
+        return {
+          success: false,
+          error: 'Auto-spend not available for this transaction',
+        };
+      }
+
+      // Use Base Account SDK to send transaction from sub-account
+      const provider = paymentService.provider;
+      if (!provider) {
+        return {
+          success: false,
+          error: 'Provider not available for auto-spend',
+        };
+      }
+
+      const subAccountAddress = subAccount.address;
+
+      // Create USDC transfer call data
+      const transferCall = {
+        to: paymentService.getUSDCContractAddress(), // USDC contract on the selected network
+        data: encodeUSDCTransfer(recipientAddress, amount),
+        value: '0x0', // No ETH value for token transfer
+      };
+
+      // Send transaction from sub-account using wallet_sendCalls; the SDK
+      // signs it with the sub-account key, so no popup is shown
+      const response = await provider.request({
+        method: 'wallet_sendCalls',
+        params: [{
+          version: '2.0.0',
+          chainId: numberToHex(paymentService.getChainId()),
+          atomicRequired: true,
+          from: subAccountAddress,
+          calls: [transferCall],
+          capabilities: {
+            // Note: Paymaster capabilities removed for demo
+          },
+        }]
+      });
+      const callsId: string = typeof response === 'string' ? response : response.id;
+      if (orderId) {
+        await paymentService.registerCalls(orderId, callsId, subAccountAddress);
+      }
+
+      const outcome = await pollCallsStatus({ provider, callsId });
+      if (outcome.status !== 'confirmed') {
+        return {
+          success: false,
+          callsId,
+          pending: outcome.status === 'unknown',
+          error: outcome.reason,
+          usedSubAccount: subAccount,
+        };
+      }
+
+      console.log('✅ Auto-spend successful:', {
+        subAccount: subAccount.name,
+        amount,
+        transactionHash: outcome.transactionHash,
+      });
+
+      return {
+        success: true,
+        callsId,
+        transactionHash: outcome.transactionHash,
+        usedSubAccount: subAccount,
+      };
+    } catch (error) {
+      console.error('❌ Auto-spend failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Auto-spend processing failed',
+      };
+    }
+  }
+
+  private loadPendingSpends(): PendingAutoSpend[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      return parseJson<PendingAutoSpend[]>(localStorage.getItem(PENDING_SPENDS_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Failed to load pending auto-spends:', error);
+      return [];
+    }
+  }
+
+  private savePendingSpends(spends: PendingAutoSpend[]): void {
+    localStorage.setItem(PENDING_SPENDS_STORAGE_KEY, stringifyJson(spends));
+  }
+
+  /**
+   * Remember a sub-account payment whose outcome is not known yet
+   */
+  addPendingSpend(spend: PendingAutoSpend): void {
+    const spends = this.loadPendingSpends().filter(existing => existing.orderId !== spend.orderId);
+    this.savePendingSpends([...spends, spend]);
+  }
+
+  /**
+   * Forget pending payments whose orders have settled, returning the ones
+   * that were paid
+   */
+  settlePendingSpends(orders: Order[]): PendingAutoSpend[] {
+    const spends = this.loadPendingSpends();
+    const settled = spends.filter(spend =>
+      orders.some(order => order.id === spend.orderId && order.status !== 'pending')
+    );
+    if (settled.length === 0) {
+      return [];
+    }
+
+    this.savePendingSpends(spends.filter(spend => !settled.includes(spend)));
+    return settled.filter(spend => orders.find(order => order.id === spend.orderId)?.status !== 'failed');
+  }
+
+  getAutoSpendStatus(subAccount: SubAccount): {
+    canAutoSpend: boolean;
+    remainingToday: Money;
+    maxAutoSpend: Money;
+    requiresApproval: boolean;
+  } {
+    const remainingToday = subAccount.dailySpendLimit - subAccount.totalSpentToday;
+    const maxAutoSpend = this.config?.maxAmount ?? ZERO_MONEY;
+    const requiresApproval = this.config?.requiresApproval || false;
+
+    return {
+      canAutoSpend: this.canAutoSpend(parseMoney('1'), subAccount), // Check with minimum amount
+      remainingToday,
+      maxAutoSpend,
+      requiresApproval,
+    };
+  }
+
+  resetConfig(): void {
+    this.config = null;
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem('autoSpendConfig');
+    }
+  }
+}
@@ -0,0 +1,23 @@
+'use client';
+
+/**
+ * Inventory Service
+ *
+ * Client for the inventory API route. Stock is reserved and committed by
+ * the order routes during checkout; this only reads what is left.
+ */
+
+export class InventoryService {
+  /**
+   * Units of each product that can still be reserved, keyed by product ID
+   */
+  async getAvailability(): Promise<Record<string, number>> {
+    const response = await fetch('/api/inventory', { cache: 'no-store' });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load stock');
+    }
+    return data.stock;
+  }
+}
@@ -0,0 +1,87 @@
+'use client';
+
+/**
+ * Order Service
+ *
+ * Client for the order API routes. This service provides:
+ * - Pending order creation before a payment starts
+ * - Recording the payment outcome the browser saw on the order
+ * - The signed-in user's order history
+ */
+
+import { Order, OrderLineInput } from '../types/order';
+import { readJson } from '../lib/json';
+import { PaymentResult } from './paymentService';
+
+export class OrderService {
+  /**
+   * Create a pending order; the server prices the lines and applies the
+   * promotion code
+   */
+  async createOrder(lines: OrderLineInput[], promotionCode?: string): Promise<Order> {
+    const response = await fetch('/api/orders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lines, promotionCode }),
+    });
+    const data = await readJson<{ order: Order; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create order');
+    }
+    return data.order;
+  }
+
+  /**
+   * Record a Base Pay or split payment outcome on a pending order. The
+   * server verifies completed payments onchain before marking the order
+   * paid. Submitted Base Pay payments and split batches that did not
+   * verify here are left to the server watcher they were registered with,
+   * which checks their outcome itself.
+   */
+  async recordPaymentResult(orderId: string, result: PaymentResult): Promise<Order | null> {
+    if (!result.success && (result.paymentId || result.callsId || result.pending)) {
+      return null;
+    }
+
+    const body = result.success
+      ? {
+        status: 'paid',
+        paymentId: result.paymentId,
+        transactionHash: result.transactionHash,
+        paidFrom: result.paidFrom,
+        payerInfo: result.payerInfo,
+      }
+      : { status: 'failed', paymentId: result.paymentId, paidFrom: result.paidFrom, error: result.error };
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await readJson<{ order?: Order; error?: string }>(response);
+
+      if (!response.ok) {
+        console.error('Failed to update order:', data.error);
+      }
+      return data.order ?? null;
+    } catch (error) {
+      console.error('Failed to update order:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The signed-in user's orders, newest first
+   */
+  async listOrders(): Promise<Order[]> {
+    const response = await fetch('/api/orders', { cache: 'no-store' });
+    const data = await readJson<{ orders: Order[]; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load orders');
+    }
+    return data.orders;
+  }
+}
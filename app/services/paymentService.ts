@@ -5,95 +5,103 @@
  * 
  * Handles payment processing using Base Pay and Base Account SDK.
  * This service provides:
- * - USDC payment processing with Base Pay
- * - Payment status monitoring
+ * - USDC payment processing with Base Pay, collecting payer details when requested
+ * - One-tap payments charged through a spend permission by the server-side spender
+ * - Split payments sent as one atomic `wallet_sendCalls` batch of transfers
+ * - Topping up a sub-account with USDC from the universal account
+ * - Registering submitted payments for server-side confirmation
+ * - Bounded payment status monitoring, resumable across reloads
+ * - Onchain receipt verification
  * - USDC balance queries
  * - Error handling and logging
  */
 
-import { pay, getPaymentStatus } from '@base-org/account';
+import { pay, type PayerInfoResponses } from '@base-org/account';
+import { numberToHex, type Address } from 'viem';
+import { NetworkConfig, NetworkName } from '../config/network';
+import { appConfig } from '../config/app';
+import { PayerInfoRequest } from '../types/product';
+import { OrderPayout } from '../types/order';
+import { resolvePaymentReceipt } from '../lib/paymentReceipt';
+import { pollCallsStatus, pollPaymentStatus } from '../lib/paymentStatus';
+import { buildPayoutCalls, encodeUSDCTransfer } from '../lib/payouts';
+import { Money, toDecimalString } from '../lib/money';
+import { parseJson, stringifyJson } from '../lib/json';
+import { SpendPermission } from './spendPermissionService';
 
-// USDC contract address on Base Mainnet
-const USDC_CONTRACT_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+// localStorage key for the Base Pay payment being tracked
+const PENDING_PAYMENT_STORAGE_KEY = 'base-account-pending-payment';
 
-// USDC has 6 decimals
-const USDC_DECIMALS = 6;
+// Stop resuming a payment that has been unsettled for this long
+const PENDING_PAYMENT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 
 export interface PaymentResult {
   success: boolean;
-  transactionHash?: string;
+  orderId?: string;
+  paymentId?: string; // Base Pay payment ID; not a transaction hash
+  callsId?: string; // `wallet_sendCalls` batch ID of a split or sub-account payment
+  transactionHash?: string; // Transaction that paid the recipient
+  blockNumber?: bigint;
+  payer?: string;
+  paidFrom?: string; // Sub-account that sent the payment on the payer's behalf
+  recipient?: string;
+  amount?: Money;
+  payerInfo?: PayerInfoResponses; // Details the payer shared through Base Pay
+  pending?: boolean; // Outcome not known yet; tracking can be resumed
   error?: string;
 }
 
 export interface PaymentRequest {
-  amount: number; // Amount in USDC (e.g., 0.1)
+  amount: Money;
   recipientAddress: string;
   userAddress: string;
+  orderId?: string; // Pending order this payment settles
+  payerInfo?: PayerInfoRequest[]; // Payer details to collect with the payment
+  payouts?: OrderPayout[]; // Split the payment among these recipients instead
+}
+
+// A submitted Base Pay payment whose outcome is not known yet
+export interface PendingPayment {
+  paymentId: string;
+  request: PaymentRequest;
+  network: NetworkName;
+  startedAt: number; // Unix milliseconds
+  payerInfo?: PayerInfoResponses;
 }
 
 export class PaymentService {
   private sdk: any;
   private provider: any;
   private walletClient: any;
+  private network: NetworkConfig;
 
-  constructor(sdk: any, provider: any, walletClient: any) {
+  constructor(sdk: any, provider: any, walletClient: any, network: NetworkConfig) {
     this.sdk = sdk;
     this.provider = provider;
     this.walletClient = walletClient;
+    this.network = network;
   }
 
   /**
    * Process a USDC payment using Base Pay
    */
-  async processPayment(paymentRequest: PaymentRequest): Promise<PaymentResult> {
+  async processPayment(paymentRequest: PaymentRequest, signal?: AbortSignal): Promise<PaymentResult> {
+    let payment;
     try {
       console.log('🚀 Starting Base Pay payment process...');
       console.log('Payment request:', paymentRequest);
 
-      // Use Base Pay for one-tap USDC payments
-      const payment = await pay({
-        amount: paymentRequest.amount.toString(),
+      // Use Base Pay for one-tap USDC payments; the wallet collects any
+      // requested payer details and checks them with the callback route
+      const requests = paymentRequest.payerInfo ?? [];
+      payment = await pay({
+        amount: toDecimalString(paymentRequest.amount),
         to: paymentRequest.recipientAddress,
-        testnet: false, // Set to true for Base Sepolia testnet
+        testnet: this.network.testnet,
+        payerInfo: requests.length > 0
+          ? { requests, callbackURL: appConfig.payerInfoCallbackUrl ?? undefined }
+          : undefined,
       });
-
-      console.log('✅ Base Pay payment initiated:', payment);
-
-      // Poll for payment status
-      const checkStatus = async (): Promise<PaymentResult> => {
-        try {
-          const status = await getPaymentStatus({
-            id: payment.id,
-            testnet: false, // Must match the testnet setting used in pay()
-          });
-
-          console.log('Payment status:', status);
-
-          if (status.status === 'completed') {
-            return {
-              success: true,
-              transactionHash: payment.id,
-            };
-          } else if (status.status === 'failed') {
-            return {
-              success: false,
-              error: 'Payment failed or was cancelled',
-            };
-          } else {
-            // Still pending, check again in 2 seconds
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            return checkStatus();
-          }
-        } catch (error: any) {
-          console.error('Error checking payment status:', error);
-          return {
-            success: false,
-            error: error.message || 'Failed to check payment status',
-          };
-        }
-      };
-
-      return await checkStatus();
     } catch (error: any) {
       console.error('❌ Base Pay payment failed:', error);
       return {
@@ -101,12 +109,331 @@ export class PaymentService {
         error: error.message || 'Payment failed',
       };
     }
+
+    console.log('✅ Base Pay payment initiated:', payment);
+
+    // Remember the payment so a reload can continue tracking it
+    const pending: PendingPayment = {
+      paymentId: payment.id,
+      request: paymentRequest,
+      network: this.network.name,
+      startedAt: Date.now(),
+      payerInfo: payment.payerInfoResponses,
+    };
+    this.savePendingPayment(pending);
+    await this.registerPayment(pending);
+
+    return this.trackPayment(pending, signal);
+  }
+
+  /**
+   * Hand a submitted payment to the server so its order settles even if
+   * this tab is closed before tracking finishes. Registering again is safe.
+   */
+  private async registerPayment(pending: PendingPayment): Promise<void> {
+    const { paymentId, request, payerInfo } = pending;
+    if (request.orderId) {
+      await this.registerWithServer({ orderId: request.orderId, paymentId, payerInfo });
+    }
+  }
+
+  /**
+   * Hand a submitted `wallet_sendCalls` batch that pays an order to the
+   * server in the same way; `paidFrom` is the sub-account that sent it
+   */
+  async registerCalls(orderId: string, callsId: string, paidFrom?: string): Promise<void> {
+    await this.registerWithServer({ orderId, callsId, paidFrom });
+  }
+
+  private async registerWithServer(registration: {
+    orderId: string;
+    paymentId?: string;
+    callsId?: string;
+    paidFrom?: string;
+    payerInfo?: PayerInfoResponses;
+  }): Promise<void> {
+    try {
+      const response = await fetch('/api/payments/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(registration),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        console.error('Failed to register payment:', data.error);
+      }
+    } catch (error) {
+      // Browser tracking still settles the order if it finishes
+      console.error('Failed to register payment:', error);
+    }
+  }
+
+  /**
+   * Follow a submitted payment until it settles. A payment that is still
+   * unsettled when polling stops stays pending and can be resumed.
+   */
+  private async trackPayment(pending: PendingPayment, signal?: AbortSignal): Promise<PaymentResult> {
+    const { paymentId, request, payerInfo } = pending;
+
+    const outcome = await pollPaymentStatus({
+      paymentId,
+      testnet: this.network.testnet,
+      signal,
+      onStatus: status => console.log('Payment status:', status),
+    });
+
+    if (outcome.status === 'unknown') {
+      console.warn('⏳ Payment not settled yet:', outcome.reason);
+      return {
+        success: false,
+        pending: true,
+        paymentId,
+        payerInfo,
+        error: outcome.reason,
+      };
+    }
+
+    this.clearPendingPayment();
+
+    if (outcome.status === 'failed') {
+      return {
+        success: false,
+        paymentId,
+        error: outcome.reason,
+      };
+    }
+
+    return { ...(await this.verifyPayment(paymentId, request)), payerInfo };
+  }
+
+  /**
+   * The user's in-flight Base Pay payment on this network, if any
+   */
+  getPendingPayment(userAddress: string): PendingPayment | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    try {
+      const stored = localStorage.getItem(PENDING_PAYMENT_STORAGE_KEY);
+      const pending = stored ? parseJson<PendingPayment>(stored) : null;
+      if (!pending) {
+        return null;
+      }
+
+      if (Date.now() - pending.startedAt > PENDING_PAYMENT_MAX_AGE_MS) {
+        this.clearPendingPayment();
+        return null;
+      }
+
+      const isSameUser = pending.request.userAddress.toLowerCase() === userAddress.toLowerCase();
+      return isSameUser && pending.network === this.network.name ? pending : null;
+    } catch {
+      this.clearPendingPayment();
+      return null;
+    }
+  }
+
+  /**
+   * Continue tracking a payment that was in flight before a reload
+   */
+  async resumePendingPayment(pending: PendingPayment, signal?: AbortSignal): Promise<PaymentResult> {
+    console.log('🔄 Resuming payment tracking:', pending.paymentId);
+    await this.registerPayment(pending);
+    return this.trackPayment(pending, signal);
+  }
+
+  private savePendingPayment(pending: PendingPayment) {
+    localStorage.setItem(PENDING_PAYMENT_STORAGE_KEY, stringifyJson(pending));
+  }
+
+  clearPendingPayment() {
+    localStorage.removeItem(PENDING_PAYMENT_STORAGE_KEY);
+  }
+
+  /**
+   * Look up the transaction behind a completed Base Pay payment and check
+   * its USDC transfer matches the request
+   */
+  private async verifyPayment(paymentId: string, paymentRequest: PaymentRequest): Promise<PaymentResult> {
+    const result = await resolvePaymentReceipt({
+      paymentId,
+      recipient: paymentRequest.recipientAddress,
+      amount: paymentRequest.amount,
+      network: this.network,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        paymentId,
+        error: `Payment could not be verified: ${result.error}`,
+      };
+    }
+
+    console.log('✅ Payment verified onchain:', result.receipt);
+    return {
+      success: true,
+      ...result.receipt,
+    };
+  }
+
+  /**
+   * Pay a split order with one atomic `wallet_sendCalls` batch holding a
+   * USDC transfer per payout leg; the server checks every leg onchain
+   * when the order is recorded as paid. The batch is registered with the
+   * server so the order still settles if polling here stops early.
+   */
+  async processSplitPayment(paymentRequest: PaymentRequest, signal?: AbortSignal): Promise<PaymentResult> {
+    let callsId: string;
+    try {
+      console.log('🚀 Sending split payment batch...');
+      console.log('Payment request:', paymentRequest);
+
+      const response = await this.provider.request({
+        method: 'wallet_sendCalls',
+        params: [{
+          version: '2.0.0',
+          chainId: numberToHex(this.network.chain.id),
+          from: paymentRequest.userAddress,
+          atomicRequired: true,
+          calls: buildPayoutCalls(paymentRequest.payouts ?? [], this.network),
+        }],
+      });
+      // EIP-5792 wallets return { id }; older ones return the ID itself
+      callsId = typeof response === 'string' ? response : response.id;
+    } catch (error) {
+      console.error('❌ Split payment failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment failed',
+      };
+    }
+
+    if (paymentRequest.orderId) {
+      await this.registerCalls(paymentRequest.orderId, callsId);
+    }
+
+    const outcome = await pollCallsStatus({ provider: this.provider, callsId, signal });
+    if (outcome.status === 'unknown') {
+      // The transfers may still land, so the order is left pending
+      console.warn('⏳ Split payment not settled yet:', outcome.reason);
+      return { success: false, pending: true, callsId, error: outcome.reason };
+    }
+    if (outcome.status === 'failed') {
+      return { success: false, callsId, error: outcome.reason };
+    }
+
+    console.log('✅ Split payment confirmed:', outcome.transactionHash);
+    return {
+      success: true,
+      callsId,
+      transactionHash: outcome.transactionHash,
+      payer: paymentRequest.userAddress,
+      amount: paymentRequest.amount,
+    };
+  }
+
+  /**
+   * Process a USDC payment by having the server-side spender charge the
+   * user's spend permission - no wallet popup is shown
+   */
+  async processSpendPermissionPayment(
+    paymentRequest: PaymentRequest,
+    permission: SpendPermission
+  ): Promise<PaymentResult> {
+    try {
+      console.log('🚀 Charging payment through spend permission...');
+      console.log('Payment request:', paymentRequest);
+
+      const response = await fetch('/api/payments/spend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          permission,
+          amount: toDecimalString(paymentRequest.amount),
+          recipientAddress: paymentRequest.recipientAddress,
+          orderId: paymentRequest.orderId,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || 'Spend permission payment failed',
+        };
+      }
+
+      console.log('✅ Spend permission payment completed:', data);
+      return {
+        success: true,
+        transactionHash: data.transactionHash,
+        blockNumber: BigInt(data.blockNumber),
+        payer: paymentRequest.userAddress as Address,
+        recipient: paymentRequest.recipientAddress,
+        amount: paymentRequest.amount,
+      };
+    } catch (error) {
+      console.error('❌ Spend permission payment failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Spend permission payment failed',
+      };
+    }
+  }
+
+  /**
+   * Send USDC from the universal account to one of its sub-accounts; the
+   * user approves the transfer in the wallet
+   */
+  async fundSubAccount(userAddress: string, subAccountAddress: string, amount: Money, signal?: AbortSignal): Promise<PaymentResult> {
+    let callsId: string;
+    try {
+      console.log('🚀 Funding sub-account:', subAccountAddress, amount);
+
+      const response = await this.provider.request({
+        method: 'wallet_sendCalls',
+        params: [{
+          version: '2.0.0',
+          chainId: numberToHex(this.network.chain.id),
+          from: userAddress,
+          atomicRequired: true,
+          calls: [{
+            to: this.network.usdcAddress,
+            data: encodeUSDCTransfer(subAccountAddress, amount),
+            value: '0x0',
+          }],
+        }],
+      });
+      callsId = typeof response === 'string' ? response : response.id;
+    } catch (error) {
+      console.error('❌ Sub-account funding failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Funding failed',
+      };
+    }
+
+    const outcome = await pollCallsStatus({ provider: this.provider, callsId, signal });
+    if (outcome.status !== 'confirmed') {
+      return { success: false, pending: outcome.status === 'unknown', error: outcome.reason };
+    }
+
+    console.log('✅ Sub-account funded:', outcome.transactionHash);
+    return {
+      success: true,
+      transactionHash: outcome.transactionHash,
+      payer: userAddress,
+      recipient: subAccountAddress,
+      amount,
+    };
   }
 
   /**
    * Get USDC balance for an address
    */
-  async getUSDCBalance(address: string): Promise<bigint> {
+  async getUSDCBalance(address: string): Promise<Money> {
     try {
       if (!this.provider) {
         console.log('Provider not available for balance check');
@@ -132,7 +459,7 @@ export class PaymentService {
         method: 'eth_call',
         params: [
           {
-            to: USDC_CONTRACT_ADDRESS,
+            to: this.network.usdcAddress,
             data: balanceOfSelector + paddedAddress,
           },
           'latest'
@@ -158,6 +485,13 @@ export class PaymentService {
    * Get USDC contract address
    */
   getUSDCContractAddress(): string {
-    return USDC_CONTRACT_ADDRESS;
+    return this.network.usdcAddress;
+  }
+
+  /**
+   * Get the chain ID of the selected network
+   */
+  getChainId(): number {
+    return this.network.chain.id;
   }
 }
\ No newline at end of file
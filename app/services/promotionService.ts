@@ -0,0 +1,33 @@
+'use client';
+
+/**
+ * Promotion Service
+ *
+ * Client for the promotion quote route, used to preview a coupon code's
+ * discount before checkout. The server applies the code again when the
+ * order is created.
+ */
+
+import { OrderLineInput } from '../types/order';
+import { PromotionQuote } from '../types/promotion';
+import { readJson } from '../lib/json';
+
+export class PromotionService {
+  /**
+   * Price lines with a promotion code; throws with the reason the code
+   * can't be used
+   */
+  async quote(code: string, lines: OrderLineInput[]): Promise<PromotionQuote> {
+    const response = await fetch('/api/promotions/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, lines }),
+    });
+    const data = await readJson<{ quote: PromotionQuote; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to apply promotion code');
+    }
+    return data.quote;
+  }
+}
@@ -1,29 +1,41 @@
+import { Money, ZERO_MONEY, formatUSDC, isMoney, parseMoney } from '../lib/money';
+import { parseJson, stringifyJson } from '../lib/json';
+
 export interface SpendLimitConfig {
-  dailyLimit: number;
-  monthlyLimit: number;
+  dailyLimit: Money;
+  monthlyLimit: Money;
   requiresApproval: boolean;
-  approvalThreshold: number;
+  approvalThreshold: Money;
   autoResetDaily: boolean;
   autoResetMonthly: boolean;
 }
 
 export interface SpendTracking {
   daily: {
-    amount: number;
-    limit: number;
+    amount: Money;
+    limit: Money;
     resetDate: string;
   };
   monthly: {
-    amount: number;
-    limit: number;
+    amount: Money;
+    limit: Money;
     resetDate: string;
   };
   totalTransactions: number;
   lastTransaction?: {
-    amount: number;
+    amount: Money;
     timestamp: number;
     subAccountId?: string;
   };
+  appliedRefundIds: string[]; // Refunds already taken off the tracked amounts
+}
+
+// Remember enough refund IDs to cover any order still being listed
+const MAX_APPLIED_REFUND_IDS = 200;
+
+// Share of a limit used, in percent with two decimals
+function percentOf(spent: Money, limit: Money): number {
+  return limit > ZERO_MONEY ? Number((spent * BigInt(10000)) / limit) / 100 : 0;
 }
 
 export class SpendLimitService {
@@ -43,7 +55,11 @@ export class SpendLimitService {
     const stored = localStorage.getItem('spendLimitConfig');
     if (stored) {
       try {
-        return { ...this.getDefaultConfig(), ...JSON.parse(stored) };
+        const config: SpendLimitConfig = { ...this.getDefaultConfig(), ...parseJson<Partial<SpendLimitConfig>>(stored) };
+        // Configs saved before amounts were Money hold plain numbers
+        if (isMoney(config.dailyLimit) && isMoney(config.monthlyLimit) && isMoney(config.approvalThreshold)) {
+          return config;
+        }
       } catch (error) {
         console.error('Failed to load spend limit config:', error);
       }
@@ -60,7 +76,7 @@ export class SpendLimitService {
     const stored = localStorage.getItem('spendTracking');
     if (stored) {
       try {
-        const parsed = JSON.parse(stored);
+        const parsed = parseJson(stored);
         return this.validateTracking(parsed);
       } catch (error) {
         console.error('Failed to load spend tracking:', error);
@@ -72,10 +88,10 @@ export class SpendLimitService {
 
   private getDefaultConfig(): SpendLimitConfig {
     return {
-      dailyLimit: 20,
-      monthlyLimit: 500,
+      dailyLimit: parseMoney('20'),
+      monthlyLimit: parseMoney('500'),
       requiresApproval: true,
-      approvalThreshold: 10,
+      approvalThreshold: parseMoney('10'),
       autoResetDaily: true,
       autoResetMonthly: true,
     };
@@ -87,16 +103,17 @@ export class SpendLimitService {
 
     return {
       daily: {
-        amount: 0,
+        amount: ZERO_MONEY,
         limit: this.config.dailyLimit,
         resetDate: today,
       },
       monthly: {
-        amount: 0,
+        amount: ZERO_MONEY,
         limit: this.config.monthlyLimit,
         resetDate: firstDayOfMonth,
       },
       totalTransactions: 0,
+      appliedRefundIds: [],
     };
   }
 
@@ -104,19 +121,19 @@ export class SpendLimitService {
     const today = new Date().toDateString();
     const firstDayOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toDateString();
 
-    // Reset daily tracking if it's a new day
-    if (tracking.daily?.resetDate !== today) {
+    // Reset daily tracking if it's a new day or was saved before amounts were Money
+    if (tracking.daily?.resetDate !== today || !isMoney(tracking.daily?.amount)) {
       tracking.daily = {
-        amount: 0,
+        amount: ZERO_MONEY,
         limit: this.config.dailyLimit,
         resetDate: today,
       };
     }
 
-    // Reset monthly tracking if it's a new month
-    if (tracking.monthly?.resetDate !== firstDayOfMonth) {
+    // Reset monthly tracking if it's a new month or was saved before amounts were Money
+    if (tracking.monthly?.resetDate !== firstDayOfMonth || !isMoney(tracking.monthly?.amount)) {
       tracking.monthly = {
-        amount: 0,
+        amount: ZERO_MONEY,
         limit: this.config.monthlyLimit,
         resetDate: firstDayOfMonth,
       };
@@ -126,19 +143,20 @@ export class SpendLimitService {
       daily: tracking.daily || this.getDefaultTracking().daily,
       monthly: tracking.monthly || this.getDefaultTracking().monthly,
       totalTransactions: tracking.totalTransactions || 0,
-      lastTransaction: tracking.lastTransaction,
+      lastTransaction: isMoney(tracking.lastTransaction?.amount) ? tracking.lastTransaction : undefined,
+      appliedRefundIds: Array.isArray(tracking.appliedRefundIds) ? tracking.appliedRefundIds : [],
     };
   }
 
   private saveConfig(): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('spendLimitConfig', JSON.stringify(this.config));
+      localStorage.setItem('spendLimitConfig', stringifyJson(this.config));
     }
   }
 
   private saveTracking(): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('spendTracking', JSON.stringify(this.tracking));
+      localStorage.setItem('spendTracking', stringifyJson(this.tracking));
     }
   }
 
@@ -155,11 +173,11 @@ export class SpendLimitService {
     this.saveConfig();
   }
 
-  canSpend(amount: number): {
+  canSpend(amount: Money): {
     allowed: boolean;
     reason?: string;
-    dailyRemaining: number;
-    monthlyRemaining: number;
+    dailyRemaining: Money;
+    monthlyRemaining: Money;
   } {
     const dailyRemaining = this.tracking.daily.limit - this.tracking.daily.amount;
     const monthlyRemaining = this.tracking.monthly.limit - this.tracking.monthly.amount;
@@ -167,7 +185,7 @@ export class SpendLimitService {
     if (amount > dailyRemaining) {
       return {
         allowed: false,
-        reason: `Amount exceeds daily limit. Remaining: $${dailyRemaining.toFixed(2)}`,
+        reason: `Amount exceeds daily limit. Remaining: ${formatUSDC(dailyRemaining)}`,
         dailyRemaining,
         monthlyRemaining,
       };
@@ -176,7 +194,7 @@ export class SpendLimitService {
     if (amount > monthlyRemaining) {
       return {
         allowed: false,
-        reason: `Amount exceeds monthly limit. Remaining: $${monthlyRemaining.toFixed(2)}`,
+        reason: `Amount exceeds monthly limit. Remaining: ${formatUSDC(monthlyRemaining)}`,
         dailyRemaining,
         monthlyRemaining,
       };
@@ -185,7 +203,7 @@ export class SpendLimitService {
     if (this.config.requiresApproval && amount > this.config.approvalThreshold) {
       return {
         allowed: false,
-        reason: `Amount requires approval (threshold: $${this.config.approvalThreshold})`,
+        reason: `Amount requires approval (threshold: ${formatUSDC(this.config.approvalThreshold)})`,
         dailyRemaining,
         monthlyRemaining,
       };
@@ -198,7 +216,7 @@ export class SpendLimitService {
     };
   }
 
-  recordSpend(amount: number, subAccountId?: string): void {
+  recordSpend(amount: Money, subAccountId?: string): void {
     this.tracking.daily.amount += amount;
     this.tracking.monthly.amount += amount;
     this.tracking.totalTransactions += 1;
@@ -211,30 +229,56 @@ export class SpendLimitService {
     this.saveTracking();
   }
 
+  /**
+   * Give back budget for a refunded spend made at `spentAt`. Only the
+   * periods that still include the spend are reduced, never below zero,
+   * and each refund is applied once. Returns whether anything changed.
+   */
+  recordRefund(refundId: string, amount: Money, spentAt: number): boolean {
+    if (this.tracking.appliedRefundIds.includes(refundId)) {
+      return false;
+    }
+
+    const spentDate = new Date(spentAt);
+    const spentMonth = new Date(spentDate.getFullYear(), spentDate.getMonth(), 1).toDateString();
+    const reduce = (spent: Money) => (spent > amount ? spent - amount : ZERO_MONEY);
+
+    if (spentDate.toDateString() === this.tracking.daily.resetDate) {
+      this.tracking.daily.amount = reduce(this.tracking.daily.amount);
+    }
+    if (spentMonth === this.tracking.monthly.resetDate) {
+      this.tracking.monthly.amount = reduce(this.tracking.monthly.amount);
+    }
+    this.tracking.appliedRefundIds = [...this.tracking.appliedRefundIds, refundId].slice(-MAX_APPLIED_REFUND_IDS);
+
+    this.saveTracking();
+    return true;
+  }
+
   resetDaily(): void {
-    this.tracking.daily.amount = 0;
+    this.tracking.daily.amount = ZERO_MONEY;
     this.tracking.daily.resetDate = new Date().toDateString();
     this.saveTracking();
   }
 
   resetMonthly(): void {
-    this.tracking.monthly.amount = 0;
+    this.tracking.monthly.amount = ZERO_MONEY;
     this.tracking.monthly.resetDate = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toDateString();
     this.saveTracking();
   }
 
   getSpendStatus(): {
     daily: {
-      spent: number;
-      limit: number;
+      spent: Money;
+      limit: Money;
       percentage: number;
-      remaining: number;
+      remaining: Money;
     };
     monthly: {
-      spent: number;
-      limit: number;
+      spent: Money;
+      limit: Money;
       percentage: number;
-      remaining: number;
+      remaining: Money;
     };
     totalTransactions: number;
   } {
@@ -247,13 +291,13 @@ export class SpendLimitService {
       daily: {
         spent: dailySpent,
         limit: dailyLimit,
-        percentage: (dailySpent / dailyLimit) * 100,
+        percentage: percentOf(dailySpent, dailyLimit),
         remaining: dailyLimit - dailySpent,
       },
       monthly: {
         spent: monthlySpent,
         limit: monthlyLimit,
-        percentage: (monthlySpent / monthlyLimit) * 100,
+        percentage: percentOf(monthlySpent, monthlyLimit),
         remaining: monthlyLimit - monthlySpent,
       },
       totalTransactions: this.tracking.totalTransactions,
@@ -0,0 +1,374 @@
+'use client';
+
+/**
+ * Spend Permission Service
+ *
+ * Reads and requests spend permissions for the app's spender on the
+ * selected network. This service provides:
+ * - Discovery of the user's existing onchain permissions
+ * - Permission details (allowance, remaining spend, period, status)
+ * - New permission requests and revocation
+ * - Per-plan permissions for subscriptions, kept apart from one-tap checkout
+ */
+
+import {
+  requestSpendPermission,
+  requestRevoke,
+  fetchPermissions,
+  getPermissionStatus,
+} from '@base-org/account/spend-permission';
+import type { ProviderInterface } from '@base-org/account';
+import { createPublicClient, http, parseAbi, type Address, type Hex, type PublicClient } from 'viem';
+import { getNetworkConfig, NetworkConfig } from '../config/network';
+import { appConfig } from '../config/app';
+import { Money, formatMoney, formatUSDC } from '../lib/money';
+import { encodeSubscriptionTag, getSubscriptionPlanId } from '../lib/subscriptionPermission';
+import { SubscriptionPlan } from '../types/subscription';
+
+// Spend permission as returned by the Base Account SDK
+export type SpendPermission = Awaited<ReturnType<typeof fetchPermissions>>[number];
+
+// Spend Permission Manager singleton (same address on Base and Base Sepolia)
+const SPEND_PERMISSION_MANAGER_ADDRESS: Address = '0xf85210B21cC50302F477BA56686d2019dC9b67Ad';
+
+const spendPermissionManagerAbi = parseAbi([
+  'struct SpendPermission { address account; address spender; address token; uint160 allowance; uint48 period; uint48 start; uint48 end; uint256 salt; bytes extraData; }',
+  'function isRevoked(SpendPermission spendPermission) view returns (bool)',
+]);
+
+// EIP-5792 wallet_getCallsStatus codes
+const CALLS_STATUS_CONFIRMED = 200;
+const CALLS_STATUS_FAILED = 400;
+
+/**
+ * Lifecycle state of a permission. A signed permission is usable ('active')
+ * before its first spend approves it onchain, so this is derived from
+ * revocation and the start/end window rather than the SDK's `isActive`.
+ */
+export type SpendPermissionState = 'active' | 'revoked' | 'expired' | 'not_started';
+
+export interface SpendPermissionStatus {
+  state: SpendPermissionState;
+  isActive: boolean;
+  remainingSpend: Money;
+  totalAllowance: Money;
+  periodEnd: Date;
+}
+
+// Terms the shopper picks when granting a permission
+export interface SpendPermissionOptions {
+  allowance: Money; // Per-period cap
+  periodInDays: number;
+}
+
+/**
+ * Check requested terms against the configured bounds
+ */
+export function validatePermissionOptions({ allowance, periodInDays }: SpendPermissionOptions): string | null {
+  if (allowance < appConfig.spendAllowanceMin || allowance > appConfig.spendAllowanceMax) {
+    return `Allowance must be between ${formatMoney(appConfig.spendAllowanceMin)} and ${formatMoney(appConfig.spendAllowanceMax)} USDC`;
+  }
+  if (!Number.isInteger(periodInDays) || periodInDays < appConfig.spendPeriodMinDays || periodInDays > appConfig.spendPeriodMaxDays) {
+    return `Period must be between ${appConfig.spendPeriodMinDays} and ${appConfig.spendPeriodMaxDays} days`;
+  }
+  return null;
+}
+
+/**
+ * When a permission granted at `from` stops being usable
+ */
+export function getPermissionExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + appConfig.spendPermissionDurationDays * 86400 * 1000);
+}
+
+export interface SpendPermissionDetails extends SpendPermissionStatus {
+  permission: SpendPermission;
+  periodInDays: number;
+  start: Date;
+  end: Date;
+  subscriptionPlanId: string | null; // Set for permissions granted for a subscription
+}
+
+export class SpendPermissionService {
+  private provider: ProviderInterface;
+  private userAddress: string | null = null;
+  private spenderAddress: string;
+  private usdcTokenAddress: string;
+  private chainId: number;
+  private publicClient: PublicClient;
+
+  constructor(provider: ProviderInterface, network: NetworkConfig = getNetworkConfig()) {
+    this.provider = provider;
+    this.spenderAddress = appConfig.spenderAddress;
+    this.usdcTokenAddress = network.usdcAddress;
+    this.chainId = network.chain.id;
+    this.publicClient = createPublicClient({ chain: network.chain, transport: http() });
+  }
+
+  setUserAddress(address: string) {
+    this.userAddress = address;
+  }
+
+  /**
+   * Fetch the user's USDC permissions for our spender on this chain
+   */
+  private async fetchUSDCPermissions(): Promise<SpendPermission[]> {
+    if (!this.userAddress || !this.provider) {
+      return [];
+    }
+
+    const permissions = await fetchPermissions({
+      account: this.userAddress,
+      chainId: this.chainId,
+      spender: this.spenderAddress,
+      provider: this.provider,
+    });
+
+    return permissions.filter(
+      (permission) => permission.permission.token.toLowerCase() === this.usdcTokenAddress.toLowerCase()
+    );
+  }
+
+  /**
+   * Combine a permission with its current onchain status
+   */
+  async getPermissionDetails(permission: SpendPermission): Promise<SpendPermissionDetails> {
+    const { account, spender, token, allowance, period, start, end, salt, extraData } = permission.permission;
+
+    const [status, isRevoked] = await Promise.all([
+      getPermissionStatus(permission),
+      this.publicClient.readContract({
+        address: SPEND_PERMISSION_MANAGER_ADDRESS,
+        abi: spendPermissionManagerAbi,
+        functionName: 'isRevoked',
+        args: [{
+          account: account as Address,
+          spender: spender as Address,
+          token: token as Address,
+          allowance: BigInt(allowance),
+          period,
+          start,
+          end,
+          salt: BigInt(salt),
+          extraData: extraData as Hex,
+        }],
+      }),
+    ]);
+
+    const now = Date.now() / 1000;
+    let state: SpendPermissionState = 'active';
+    if (isRevoked) {
+      state = 'revoked';
+    } else if (now >= end) {
+      state = 'expired';
+    } else if (now < start) {
+      state = 'not_started';
+    }
+
+    return {
+      permission,
+      state,
+      isActive: state === 'active',
+      remainingSpend: status.remainingSpend,
+      totalAllowance: BigInt(allowance),
+      periodEnd: status.nextPeriodStart,
+      periodInDays: period / 86400,
+      start: new Date(start * 1000),
+      end: new Date(end * 1000),
+      subscriptionPlanId: getSubscriptionPlanId(permission),
+    };
+  }
+
+  /**
+   * List every USDC permission the user granted to our spender, with status
+   */
+  async listPermissions(): Promise<SpendPermissionDetails[]> {
+    try {
+      const permissions = await this.fetchUSDCPermissions();
+      return await Promise.all(permissions.map((permission) => this.getPermissionDetails(permission)));
+    } catch (error) {
+      console.error('Error listing spend permissions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the user's first active checkout permission, if any
+   */
+  async getActivePermission(): Promise<SpendPermissionDetails | null> {
+    const permissions = await this.listPermissions();
+    return permissions.find((details) => details.isActive && !details.subscriptionPlanId) ?? null;
+  }
+
+  /**
+   * Check if user has an active spend permission
+   */
+  async hasActivePermission(): Promise<boolean> {
+    return (await this.getActivePermission()) !== null;
+  }
+
+  /**
+   * Request a new spend permission from the user with the chosen terms
+   */
+  async requestPermission({ allowance, periodInDays }: SpendPermissionOptions): Promise<SpendPermission> {
+    if (!this.userAddress || !this.provider) {
+      throw new Error('User address and provider required');
+    }
+
+    const validationError = validatePermissionOptions({ allowance, periodInDays });
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const start = new Date();
+      const end = getPermissionExpiry(start);
+
+      console.log('Requesting spend permission...', {
+        account: this.userAddress,
+        spender: this.spenderAddress,
+        token: this.usdcTokenAddress,
+        allowance: allowance.toString(),
+        periodInDays,
+        end: end.toISOString(),
+      });
+
+      const permission = await requestSpendPermission({
+        account: this.userAddress,
+        spender: this.spenderAddress,
+        token: this.usdcTokenAddress,
+        chainId: this.chainId,
+        allowance: allowance, // USDC (6 decimals)
+        periodInDays: periodInDays,
+        start,
+        end,
+        provider: this.provider,
+      });
+
+      console.log('Spend permission granted:', permission);
+      return permission;
+    } catch (error) {
+      console.error('Failed to request spend permission:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request a permission that pays for one subscription: the plan price
+   * once per plan interval, tagged so checkout never spends from it
+   */
+  async requestSubscriptionPermission(plan: SubscriptionPlan): Promise<SpendPermission> {
+    if (!this.userAddress || !this.provider) {
+      throw new Error('User address and provider required');
+    }
+
+    const start = new Date();
+    console.log('Requesting subscription permission...', { plan: plan.id, allowance: plan.price.toString() });
+
+    const permission = await requestSpendPermission({
+      account: this.userAddress,
+      spender: this.spenderAddress,
+      token: this.usdcTokenAddress,
+      chainId: this.chainId,
+      allowance: plan.price,
+      periodInDays: plan.intervalDays,
+      start,
+      end: getPermissionExpiry(start),
+      extraData: encodeSubscriptionTag(plan.id),
+      provider: this.provider,
+    });
+
+    console.log('Subscription permission granted:', permission);
+    return permission;
+  }
+
+  /**
+   * Revoke a permission through the SDK's revoke flow (a wallet_sendCalls
+   * from the user's account) and wait for it to be confirmed
+   */
+  async revokePermission(permission: SpendPermission): Promise<{ success: boolean; error?: string }> {
+    try {
+      console.log('Revoking spend permission:', permission.permissionHash);
+
+      const result: unknown = await requestRevoke({ provider: this.provider, permission });
+      // wallet_sendCalls v2 returns { id }, older wallets return the id directly
+      const callsId = typeof result === 'string' ? result : (result as { id: string }).id;
+
+      for (let attempt = 0; attempt < 30; attempt++) {
+        const status = await this.provider.request({
+          method: 'wallet_getCallsStatus',
+          params: [callsId],
+        }) as { status: number };
+
+        if (status.status === CALLS_STATUS_CONFIRMED) {
+          console.log('✅ Spend permission revoked');
+          return { success: true };
+        }
+        if (status.status >= CALLS_STATUS_FAILED) {
+          return { success: false, error: 'Revoke transaction failed' };
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+
+      return { success: false, error: 'Timed out waiting for revoke confirmation' };
+    } catch (error) {
+      console.error('Failed to revoke spend permission:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to revoke spend permission',
+      };
+    }
+  }
+
+  /**
+   * Check if user can spend a specific amount
+   */
+  async canSpend(amount: Money): Promise<{ allowed: boolean; reason?: string; remainingSpend?: Money }> {
+    if (!this.userAddress || !this.provider) {
+      return { allowed: false, reason: 'User not authenticated' };
+    }
+
+    try {
+      const active = await this.getActivePermission();
+
+      if (!active) {
+        return { allowed: false, reason: 'No active spend permission found' };
+      }
+
+      if (amount > active.remainingSpend) {
+        return {
+          allowed: false,
+          reason: `Insufficient spend allowance. Remaining: ${formatUSDC(active.remainingSpend)}`,
+          remainingSpend: active.remainingSpend
+        };
+      }
+
+      return {
+        allowed: true,
+        remainingSpend: active.remainingSpend
+      };
+    } catch (error) {
+      console.error('Error checking spend permission:', error);
+      return { allowed: false, reason: 'Error checking spend permission' };
+    }
+  }
+
+  /**
+   * Get spend permission status
+   */
+  async getPermissionStatus(): Promise<SpendPermissionStatus | null> {
+    const active = await this.getActivePermission();
+    if (!active) {
+      return null;
+    }
+
+    return {
+      state: active.state,
+      isActive: active.isActive,
+      remainingSpend: active.remainingSpend,
+      totalAllowance: active.totalAllowance,
+      periodEnd: active.periodEnd,
+    };
+  }
+}
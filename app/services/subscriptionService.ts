@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * Subscription Service
+ *
+ * Client for the subscription API routes. This service provides:
+ * - Subscribing to a plan with a granted subscription permission
+ * - The signed-in user's subscriptions
+ * - Pausing, resuming and canceling a subscription
+ */
+
+import { readJson } from '../lib/json';
+import { Subscription } from '../types/subscription';
+import { SpendPermission } from './spendPermissionService';
+
+export type SubscriptionAction = 'pause' | 'resume' | 'cancel';
+
+export class SubscriptionService {
+  /**
+   * Subscribe to a plan; the server charges the first period right away
+   */
+  async subscribe(planId: string, permission: SpendPermission): Promise<Subscription> {
+    const response = await fetch('/api/subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ planId, permission }),
+    });
+    const data = await readJson<{ subscription: Subscription; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to subscribe');
+    }
+    return data.subscription;
+  }
+
+  /**
+   * The signed-in user's subscriptions, newest first
+   */
+  async listSubscriptions(): Promise<Subscription[]> {
+    const response = await fetch('/api/subscriptions', { cache: 'no-store' });
+    const data = await readJson<{ subscriptions: Subscription[]; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load subscriptions');
+    }
+    return data.subscriptions;
+  }
+
+  async updateSubscription(id: string, action: SubscriptionAction): Promise<Subscription> {
+    const response = await fetch(`/api/subscriptions/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action }),
+    });
+    const data = await readJson<{ subscription: Subscription; error?: string }>(response);
+
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to ${action} subscription`);
+    }
+    return data.subscription;
+  }
+}
@@ -0,0 +1,32 @@
+'use client';
+
+/**
+ * Subscriptions Page
+ *
+ * Lets the signed-in user subscribe to plans billed through a spend
+ * permission, and pause, resume or cancel their subscriptions.
+ */
+
+import { Header } from "../components/Header";
+import { Subscriptions } from "../components/Subscriptions";
+import { useAuth } from "../contexts/AuthContext";
+
+export default function SubscriptionsPage() {
+  const { isAuthenticated } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          {isAuthenticated ? (
+            <Subscriptions />
+          ) : (
+            <p className="text-center text-xl text-gray-600">Sign in with your Base Account to manage subscriptions</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
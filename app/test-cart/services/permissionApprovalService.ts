@@ -1,7 +1,10 @@
+import { Money, isMoney, parseMoney } from '../../lib/money';
+import { parseJson, stringifyJson } from '../../lib/json';
+
 export interface PermissionRequest {
   id: string;
   subAccountId: string;
-  amount: number;
+  amount: Money;
   recipientAddress: string;
   purpose: string;
   requestedAt: number;
@@ -14,7 +17,7 @@ export interface PermissionRequest {
 }
 
 export interface PermissionApprovalConfig {
-  autoApproveThreshold: number;
+  autoApproveThreshold: Money;
   maxPendingRequests: number;
   requestExpiryHours: number;
   requireApprovalForSubAccounts: boolean;
@@ -39,7 +42,11 @@ export class PermissionApprovalService {
     const stored = localStorage.getItem('permissionApprovalConfig');
     if (stored) {
       try {
-        return { ...this.getDefaultConfig(), ...JSON.parse(stored) };
+        const config: PermissionApprovalConfig = { ...this.getDefaultConfig(), ...parseJson<Partial<PermissionApprovalConfig>>(stored) };
+        // Configs saved before amounts were Money hold plain numbers
+        if (isMoney(config.autoApproveThreshold)) {
+          return config;
+        }
       } catch (error) {
         console.error('Failed to load permission approval config:', error);
       }
@@ -56,7 +63,8 @@ export class PermissionApprovalService {
     const stored = localStorage.getItem('permissionRequests');
     if (stored) {
       try {
-        return JSON.parse(stored);
+        // Requests saved before amounts were Money are dropped
+        return parseJson<PermissionRequest[]>(stored).filter(req => isMoney(req.amount));
       } catch (error) {
         console.error('Failed to load permission requests:', error);
       }
@@ -67,7 +75,7 @@ export class PermissionApprovalService {
 
   private getDefaultConfig(): PermissionApprovalConfig {
     return {
-      autoApproveThreshold: 5, // Auto-approve amounts under $5
+      autoApproveThreshold: parseMoney('5'), // Auto-approve amounts under $5
       maxPendingRequests: 10,
       requestExpiryHours: 24,
       requireApprovalForSubAccounts: true,
@@ -78,13 +86,13 @@ export class PermissionApprovalService {
 
   private saveConfig(): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('permissionApprovalConfig', JSON.stringify(this.config));
+      localStorage.setItem('permissionApprovalConfig', stringifyJson(this.config));
     }
   }
 
   private saveRequests(): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('permissionRequests', JSON.stringify(this.requests));
+      localStorage.setItem('permissionRequests', stringifyJson(this.requests));
     }
   }
 
@@ -111,7 +119,7 @@ export class PermissionApprovalService {
 
   async requestPermission(
     subAccountId: string,
-    amount: number,
+    amount: Money,
     recipientAddress: string,
     purpose: string
   ): Promise<{ success: boolean; requestId?: string; autoApproved?: boolean; error?: string }> {
@@ -259,7 +267,7 @@ export class PermissionApprovalService {
     }
   }
 
-  async canSpend(subAccountId: string, amount: number, recipientAddress: string): Promise<{
+  async canSpend(subAccountId: string, amount: Money, recipientAddress: string): Promise<{
     allowed: boolean;
     reason?: string;
     requiresApproval: boolean;
@@ -0,0 +1,75 @@
+import type { PayerInfoResponses } from '@base-org/account';
+import { Money } from '../lib/money';
+import { PayerInfoField, PayerInfoRequest, PayoutRole } from './product';
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+
+export type PaymentMethod = 'base_pay' | 'spend_permission' | 'split_transfer' | 'sub_account';
+
+export interface OrderLine {
+  productId: string;
+  name: string;
+  unitPrice: Money; // Price at the time of purchase
+  quantity: number;
+}
+
+// What the client sends when creating an order; prices come from the catalog
+export interface OrderLineInput {
+  productId: string;
+  quantity: number;
+}
+
+// One USDC transfer of a split payment
+export interface OrderPayout {
+  role: PayoutRole;
+  recipient: string;
+  amount: Money;
+}
+
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+// USDC sent back to the payer by the merchant
+export interface OrderRefund {
+  id: string;
+  amount: Money;
+  reason?: string;
+  transactionHash: string;
+  status: RefundStatus; // 'pending' until the transfer's receipt is seen
+  createdAt: number; // Unix milliseconds
+}
+
+// A spend permission charge that reached the spender but not the merchant;
+// the USDC has to be forwarded by hand
+export interface StrandedCharge {
+  amount: Money;
+  spendTransactionHashes: string[];
+  transferTransactionHash?: string; // Merchant transfer that reverted, if it was sent
+}
+
+export interface Order {
+  id: string;
+  lines: OrderLine[];
+  amount: Money; // Order total after any discount
+  discount?: Money; // Taken off the line totals by `promotionCode`
+  promotionCode?: string;
+  payer: string;
+  payerInfoRequests?: PayerInfoRequest[]; // Details the ordered products need
+  payerInfo?: PayerInfoResponses; // Details shared by the payer through Base Pay
+  payerInfoMissing?: PayerInfoField[]; // Required details the payment came without, or with invalid values; collect them before fulfilling
+  payouts?: OrderPayout[]; // Set when the order is split among several recipients; legs add up to `amount`
+  chainId: number;
+  status: OrderStatus;
+  paymentMethod?: PaymentMethod;
+  paidFrom?: string; // Sub-account of the payer that sent the payment, when not the payer itself
+  paymentId?: string; // Base Pay payment ID
+  callsId?: string; // `wallet_sendCalls` batch ID of a split or sub-account payment
+  transactionHash?: string;
+  error?: string;
+  chargingAt?: number; // Unix milliseconds; set while the spender charges the order so it is only charged once
+  strandedCharge?: StrandedCharge; // Needs recovery; the order stays pending until it is forwarded
+  refunds?: OrderRefund[];
+  settlementIssues?: string[]; // Found when the order was paid, e.g. stock that sold out after its hold lapsed; needs a refund or follow-up
+  paidAt?: number; // Unix milliseconds
+  createdAt: number; // Unix milliseconds
+  updatedAt: number; // Unix milliseconds
+}
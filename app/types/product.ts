@@ -1,12 +1,34 @@
+import type { Address } from 'viem';
+import { Money } from '../lib/money';
+
+// Payer details Base Pay can collect from the wallet at checkout
+export type PayerInfoField = 'email' | 'name' | 'physicalAddress' | 'phoneNumber';
+
+export interface PayerInfoRequest {
+  type: PayerInfoField;
+  optional?: boolean;
+}
+
+// Who receives a cut of a marketplace sale
+export type PayoutRole = 'seller' | 'platform' | 'affiliate';
+
+export interface PayoutShare {
+  role: PayoutRole;
+  recipient?: Address; // Required except for 'platform', which is paid to the merchant address
+  basisPoints: number; // Share of the price out of 10,000
+}
+
 export interface Product {
   id: string;
   name: string;
   description: string;
-  price: number; // Price in USDC
+  price: Money; // Price in USDC minor units
   image: string;
   category: string;
-  inStock: boolean;
+  stock: number; // Units stocked before any sales; live availability comes from the inventory
   features: string[];
+  payerInfo?: PayerInfoRequest[]; // Details to collect when buying, e.g. a shipping address for physical goods
+  payoutSplit?: PayoutShare[]; // Marketplace products split their price; shares add up to 10,000
 }
 
 export interface CartItem {
@@ -16,5 +38,8 @@ export interface CartItem {
 
 export interface Cart {
   items: CartItem[];
-  total: number;
+  subtotal: Money;
+  discount: Money; // From the applied promotion code, if any
+  total: Money;
+  promotionCode?: string;
 }
@@ -0,0 +1,29 @@
+import { Money } from '../lib/money';
+
+export type PromotionType = 'percent' | 'fixed';
+
+// 'product' discounts only the listed products; 'cart' discounts the subtotal
+export type PromotionScope = 'product' | 'cart';
+
+export interface Promotion {
+  code: string; // Entered by the shopper, matched case-insensitively
+  description: string;
+  type: PromotionType;
+  scope: PromotionScope;
+  percentOff?: number; // Whole percent, for 'percent' promotions
+  amountOff?: Money; // Per unit for 'product' scope, once per order for 'cart' scope
+  productIds?: string[]; // Eligible products for 'product' scope
+  minSubtotal?: Money; // Smallest order subtotal the code applies to
+  startsAt?: string; // ISO date; valid from this moment when set
+  endsAt?: string; // ISO date; valid until this moment when set
+  usageLimit?: number; // Total paid orders the code can be used on
+}
+
+// Price breakdown for a set of lines with a promotion applied
+export interface PromotionQuote {
+  code: string;
+  description: string;
+  subtotal: Money;
+  discount: Money;
+  amount: Money; // What the shopper pays
+}
@@ -0,0 +1,44 @@
+import { Money } from '../lib/money';
+import type { SpendPermission } from '../lib/spender';
+import { StrandedCharge } from './order';
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string;
+  price: Money; // Charged once per interval
+  intervalDays: number; // Also the period of the plan's spend permission
+  features: string[];
+}
+
+// 'past_due' while a failed charge is being retried
+export type SubscriptionStatus = 'active' | 'past_due' | 'paused' | 'canceled';
+
+export interface SubscriptionCharge {
+  id: string;
+  amount: Money;
+  periodStart: number; // Unix milliseconds; the billing period this charge pays for
+  status: 'paid' | 'failed' | 'stranded'; // 'stranded': taken from the subscriber but not forwarded to the merchant
+  transactionHash?: string;
+  error?: string;
+  stranded?: StrandedCharge; // Needs recovery; the period counts as paid
+  createdAt: number; // Unix milliseconds
+}
+
+export interface Subscription {
+  id: string;
+  planId: string;
+  subscriber: string;
+  chainId: number;
+  permission: SpendPermission; // Granted for this subscription only; the spender charges it
+  price: Money; // Plan price when subscribing
+  intervalDays: number;
+  status: SubscriptionStatus;
+  nextChargeAt: number; // Unix milliseconds; start of the next unpaid period, or the next retry
+  currentPeriodStart: number; // Unix milliseconds; start of the period being billed next
+  failedAttempts: number; // Consecutive failed charges for the current period
+  charges: SubscriptionCharge[];
+  cancelReason?: string;
+  createdAt: number; // Unix milliseconds
+  updatedAt: number; // Unix milliseconds
+}
@@ -0,0 +1,16 @@
+/**
+ * Next.js instrumentation hook, run once when the server starts.
+ * Loading the app configuration here makes a misconfigured deployment fail
+ * at startup with a readable error instead of on the first request.
+ * The Node.js server also starts the background jobs that confirm payments
+ * and deliver merchant webhooks.
+ */
+
+export async function register() {
+  await import('./app/config/app');
+
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startBackgroundJobs } = await import('./app/lib/backgroundJobs');
+    startBackgroundJobs();
+  }
+}